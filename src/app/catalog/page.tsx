@@ -0,0 +1,14 @@
+import ServerCatalog from '@/components/ServerCatalog';
+
+export const metadata = {
+  title: 'MCP Server Catalog',
+  description: 'Browse, filter and add MCP servers',
+}
+
+export default function CatalogPage() {
+  return (
+    <main>
+      <ServerCatalog />
+    </main>
+  );
+}
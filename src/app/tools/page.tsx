@@ -0,0 +1,22 @@
+import ToolWorkbench from '@/components/ToolWorkbench';
+import { parseToolLink } from '@/lib/toolLinks';
+
+export const metadata = {
+  title: 'MCP Tool Workbench',
+  description: 'Run MCP server tools from your session',
+}
+
+interface ToolsPageProps {
+  searchParams: Record<string, string | string[] | undefined>;
+}
+
+export default function ToolsPage({ searchParams }: ToolsPageProps) {
+  const selection = parseToolLink(searchParams);
+
+  return (
+    <main>
+      {/* Remount when the link changes so the new selection is applied */}
+      <ToolWorkbench key={JSON.stringify(selection)} initialSelection={selection} />
+    </main>
+  );
+}
@@ -0,0 +1,14 @@
+import CredentialVault from '@/components/CredentialVault';
+
+export const metadata = {
+  title: 'Credential Vault',
+  description: 'Manage saved MCP server credential profiles',
+}
+
+export default function VaultPage() {
+  return (
+    <main>
+      <CredentialVault />
+    </main>
+  );
+}
@@ -0,0 +1,14 @@
+import WorkflowBuilder from '@/components/WorkflowBuilder';
+
+export const metadata = {
+  title: 'MCP Workflows',
+  description: 'Chain MCP tool calls into reusable workflows',
+}
+
+export default function WorkflowsPage() {
+  return (
+    <main>
+      <WorkflowBuilder />
+    </main>
+  );
+}
@@ -0,0 +1,287 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Layers, Upload, Play, Square, RotateCw, Download, Loader2, AlertCircle, X } from 'lucide-react';
+import * as api from '@/lib/api';
+import { BatchRow, createBatchRows, exportBatchResults, parseBatchInput, runBatch } from '@/lib/batch';
+import { downloadFile } from '@/lib/download';
+import ToolResultViewer from './ToolResultViewer';
+import { McpToolDefinition } from '@/types';
+
+interface BatchRunPanelProps {
+  sessionId: string;
+  serverId: string;
+  tool: McpToolDefinition;
+  disabled?: boolean;
+  onClose: () => void;
+}
+
+const CELL_STYLES: Record<BatchRow['status'], string> = {
+  pending: 'bg-gray-100 border-gray-200',
+  running: 'bg-blue-100 border-blue-300 animate-pulse',
+  success: 'bg-green-500 border-green-600',
+  failed: 'bg-red-500 border-red-600',
+  invalid: 'bg-amber-300 border-amber-400',
+};
+
+export default function BatchRunPanel({ sessionId, serverId, tool, disabled = false, onClose }: BatchRunPanelProps) {
+  const [input, setInput] = useState('');
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [inputError, setInputError] = useState<string | null>(null);
+  const [concurrency, setConcurrency] = useState(2);
+  const [ratePerMinute, setRatePerMinute] = useState(0);
+  const [isRunning, setIsRunning] = useState(false);
+  const [inspectedIndex, setInspectedIndex] = useState<number | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const loadInput = (text: string) => {
+    setInput(text);
+    setInspectedIndex(null);
+    if (!text.trim()) {
+      setRows([]);
+      setInputError(null);
+      return;
+    }
+    try {
+      setRows(createBatchRows(parseBatchInput(text, tool.inputSchema), tool.inputSchema));
+      setInputError(null);
+    } catch (error) {
+      setRows([]);
+      setInputError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const run = async (toRun: BatchRow[]) => {
+    if (toRun.length === 0) return;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRunning(true);
+    try {
+      await runBatch(toRun, {
+        sessionId,
+        serverId,
+        toolName: tool.name,
+        concurrency,
+        ratePerMinute,
+        signal: controller.signal,
+        onRowUpdate: (row) => setRows(prev => prev.map(existing => (existing.index === row.index ? row : existing))),
+      });
+    } catch (error) {
+      setInputError(error instanceof Error ? error.message : String(error));
+    } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const stop = () => {
+    if (!abortControllerRef.current) return;
+    abortControllerRef.current.abort();
+    abortControllerRef.current = null;
+    api.cancelSessionStream(sessionId);
+  };
+
+  const counts = rows.reduce((totals, row) => ({ ...totals, [row.status]: totals[row.status] + 1 }), {
+    pending: 0, running: 0, success: 0, failed: 0, invalid: 0,
+  } as Record<BatchRow['status'], number>);
+  const runnable = rows.filter(row => row.status !== 'invalid');
+  const done = counts.success + counts.failed;
+  const inspected = inspectedIndex !== null ? rows[inspectedIndex] : undefined;
+  const exportName = `${serverId}-${tool.name}-batch`;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center space-x-1.5 text-sm font-medium text-gray-700">
+          <Layers size={14} />
+          <span>Batch run: {tool.name}</span>
+        </h3>
+        <button
+          onClick={onClose}
+          disabled={isRunning}
+          className="p-1 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+          title="Close batch run"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label htmlFor={`${exportName}-input`} className="text-xs font-medium text-gray-700">
+            Parameter sets (CSV with a header row, or a JSON array)
+          </label>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isRunning}
+            className="flex items-center space-x-1 text-xs text-gray-500 hover:text-black disabled:opacity-50"
+          >
+            <Upload size={12} />
+            <span>Upload file</span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) loadInput(await file.text());
+            }}
+          />
+        </div>
+        <textarea
+          id={`${exportName}-input`}
+          value={input}
+          onChange={(e) => loadInput(e.target.value)}
+          rows={5}
+          disabled={isRunning}
+          spellCheck={false}
+          placeholder={`${Object.keys(tool.inputSchema?.properties || {}).join(',') || 'name'}\n...`}
+          className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent font-mono text-xs"
+        />
+        {inputError && (
+          <div role="alert" className="flex items-center space-x-1 text-red-600 text-xs mt-1">
+            <AlertCircle size={12} />
+            <span>{inputError}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-4 text-xs text-gray-700">
+        <label className="flex items-center space-x-2">
+          <span>Concurrency</span>
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={concurrency}
+            onChange={(e) => setConcurrency(Math.min(10, Math.max(1, Number(e.target.value) || 1)))}
+            disabled={isRunning}
+            className="w-16 px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black"
+          />
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>Max per minute</span>
+          <input
+            type="number"
+            min={0}
+            value={ratePerMinute}
+            onChange={(e) => setRatePerMinute(Math.max(0, Number(e.target.value) || 0))}
+            disabled={isRunning}
+            className="w-20 px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black"
+          />
+          <span className="text-gray-400">0 = no limit</span>
+        </label>
+      </div>
+
+      {rows.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <span>
+              {done}/{runnable.length} done · {counts.success} succeeded · {counts.failed} failed
+              {counts.invalid > 0 && ` · ${counts.invalid} invalid`}
+            </span>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => downloadFile(`${exportName}.json`, exportBatchResults(rows, 'json'), 'application/json')}
+                disabled={isRunning || done === 0}
+                className="flex items-center space-x-1 hover:text-black disabled:opacity-40"
+              >
+                <Download size={12} />
+                <span>JSON</span>
+              </button>
+              <button
+                onClick={() => downloadFile(`${exportName}.csv`, exportBatchResults(rows, 'csv'), 'text/csv')}
+                disabled={isRunning || done === 0}
+                className="flex items-center space-x-1 hover:text-black disabled:opacity-40"
+              >
+                <Download size={12} />
+                <span>CSV</span>
+              </button>
+            </div>
+          </div>
+          <div className="w-full h-1.5 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-black transition-all"
+              style={{ width: `${runnable.length ? (done / runnable.length) * 100 : 0}%` }}
+            />
+          </div>
+          {/* One cell per row; click to see its parameters and outcome */}
+          <div className="flex flex-wrap gap-1">
+            {rows.map(row => (
+              <button
+                key={row.index}
+                onClick={() => setInspectedIndex(inspectedIndex === row.index ? null : row.index)}
+                className={`w-5 h-5 rounded border ${CELL_STYLES[row.status]} ${
+                  inspectedIndex === row.index ? 'ring-2 ring-black ring-offset-1' : ''
+                }`}
+                title={`Row ${row.index + 1}: ${row.status}${row.error ? ` (${row.error})` : ''}`}
+                aria-label={`Row ${row.index + 1}: ${row.status}`}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {inspected && (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 space-y-2">
+          <div className="flex items-center justify-between text-xs">
+            <span className="font-medium text-gray-700">Row {inspected.index + 1}</span>
+            <span className="text-gray-500">
+              {inspected.status}
+              {inspected.attempts > 1 && ` after ${inspected.attempts} attempts`}
+              {inspected.result?.execution_time !== undefined && ` · ${inspected.result.execution_time}ms`}
+            </span>
+          </div>
+          <pre className="text-xs bg-white p-2 rounded border border-gray-200 overflow-x-auto text-gray-800">
+            {JSON.stringify(inspected.parameters, null, 2)}
+          </pre>
+          {inspected.error && <p className="text-xs text-red-700">{inspected.error}</p>}
+          {inspected.result?.result !== undefined && inspected.result.result !== null && (
+            <ToolResultViewer value={inspected.result.result} fileName={`${exportName}-row-${inspected.index + 1}`} />
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center space-x-2">
+        {isRunning ? (
+          <button
+            onClick={stop}
+            className="flex-1 flex items-center justify-center space-x-2 bg-white text-gray-900 border border-gray-300 py-2 px-4 rounded-lg hover:bg-gray-100 transition-colors text-sm"
+          >
+            <Loader2 size={14} className="animate-spin" />
+            <span>Running {counts.running} of {runnable.length}...</span>
+            <span className="flex items-center space-x-1 text-gray-500">
+              <Square size={12} className="fill-current" />
+              <span>Stop</span>
+            </span>
+          </button>
+        ) : (
+          <>
+            <button
+              onClick={() => run(rows.filter(row => row.status === 'pending'))}
+              disabled={disabled || counts.pending === 0}
+              className="flex-1 flex items-center justify-center space-x-2 bg-black text-white py-2 px-4 rounded-lg hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm"
+            >
+              <Play size={14} />
+              <span>Run {counts.pending} row{counts.pending === 1 ? '' : 's'}</span>
+            </button>
+            {counts.failed > 0 && (
+              <button
+                onClick={() => run(rows.filter(row => row.status === 'failed'))}
+                disabled={disabled}
+                className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg disabled:opacity-50"
+              >
+                <RotateCw size={14} />
+                <span>Retry {counts.failed} failed</span>
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
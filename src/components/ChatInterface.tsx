@@ -1,63 +1,132 @@
 'use client';
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Loader2, Server, CheckCircle, Settings, Bot, User, Search, HelpCircle, Book, Zap, Database, Globe, GitBranch, FileText, ChevronDown, ChevronRight } from 'lucide-react';
+import Link from 'next/link';
+import { Send, Square, Loader2, Server, CheckCircle, Settings, Bot, User, Search, HelpCircle, Book, Zap, Database, Globe, GitBranch, FileText, ChevronDown, ChevronRight, History, ShieldOff, Upload, Download, LayoutGrid, KeyRound, Wrench, Bookmark, Play } from 'lucide-react';
 import McpCredentialModal from './McpCredentialModal';
 import SearchReferenceModal from './SearchReferenceModal';
+import ConfigImportModal from './ConfigImportModal';
+import ConfigExportModal from './ConfigExportModal';
+import ConversationSidebar from './ConversationSidebar';
+import McpServerCard from './McpServerCard';
+import ServerDetailDrawer from './ServerDetailDrawer';
+import ServerCompareModal from './ServerCompareModal';
+import ServerCompareTray from './ServerCompareTray';
+import SessionServerItem, { ServerAction } from './SessionServerItem';
+import ToolLaunchPanel from './ToolLaunchPanel';
+import ToolApprovalCard from './ToolApprovalCard';
+import ToolResultViewer from './ToolResultViewer';
 import MarkdownJSX from 'markdown-to-jsx';
-
-interface McpServer {
-  id: string;
-  name: string;
-  description: string;
-  category: string;
-  install_command: string;
-  tools: string[];
-  metadata?: {
-    quality_score?: string;
-    stars?: number;
-  };
+import * as api from '@/lib/api';
+import { readChatStream } from '@/lib/sse';
+import * as conversationStore from '@/lib/conversationStore';
+import * as executionLog from '@/lib/executionLog';
+import { discoverServerTools, invalidateServerTools } from '@/lib/toolDiscovery';
+import { createSessionId, getOrCreateSessionId, storeSessionId } from '@/lib/session';
+import { applyServerStatus } from '@/lib/serverEvents';
+import { useServerEvents } from '@/hooks/useServerEvents';
+import { useCompareSelection } from '@/hooks/useCompareSelection';
+import { useToolPresets } from '@/hooks/useToolPresets';
+import { runTool } from '@/lib/toolRunner';
+import {
+  ApprovalDecision,
+  DEFAULT_APPROVAL_POLICY,
+  allowlistKey,
+  buildDenialResult,
+  getToolCallTarget,
+  loadApprovalPolicy,
+  requiresApproval,
+  saveApprovalPolicy,
+} from '@/lib/toolApproval';
+import { ChatMessage, ConfiguredServer, FunctionCall, McpCredentialRequirement, McpServer, McpToolDefinition, StoredConversation, ToolApprovalMode, ToolApprovalPolicy, ToolExecutionResult, ToolPreset } from '@/types';
+import { SchemaErrors, validateToolParameters } from '@/lib/jsonSchema';
+import { ImportServerResult, ServerEvent } from '@/types/api';
+
+const CONVERSATION_TITLE_LENGTH = 60;
+
+const APPROVAL_MODE_LABELS: Record<ToolApprovalMode, string> = {
+  always: 'Always ask',
+  mutating: 'Ask for mutating tools',
+  allowlist: 'Auto-approve allowlist only',
+};
+
+// `available_tools` results list tools either by name or as objects, optionally with a JSON Schema
+const toToolDefinition = (tool: any): McpToolDefinition =>
+  typeof tool === 'string'
+    ? { name: tool }
+    : { name: tool.name, description: tool.description, inputSchema: tool.inputSchema || tool.input_schema };
+
+// Recommendations come from the model's function call, so fill in what McpServerCard relies on
+const toRecommendedServer = (server: any): McpServer => ({
+  ...server,
+  category: server.category || 'Other',
+  install_command: server.install_command || '',
+  tools: server.tools || [],
+  metadata: server.metadata || {},
+});
+
+interface ToolLaunchTarget {
+  functionCall: FunctionCall;
+  serverId: string;
+  serverName?: string;
+  tool: McpToolDefinition;
 }
 
-interface FunctionCall {
-  type: string;
-  function_name: string;
-  function_args: any;
-  function_result: any;
+// A preset whose saved parameters don't fit its tool's schema, opened for fixing
+interface PresetLaunchTarget {
+  preset: ToolPreset;
+  tool: McpToolDefinition;
+  errors: SchemaErrors;
 }
 
-interface Message {
-  id: string;
-  content: string;
-  sender: 'user' | 'assistant';
-  timestamp: Date;
-  functionCalls?: FunctionCall[];
-}
-
-interface SessionServer {
-  sessionId: string;
-  serverId: string;
-  serverName: string;
-  installedAt: string;
-  isActive: boolean;
-}
+const deriveConversationTitle = (messages: ChatMessage[]) => {
+  const firstUserMessage = messages.find(msg => msg.sender === 'user')?.content.trim() || 'New conversation';
+  const firstLine = firstUserMessage.split('\n')[0];
+  return firstLine.length > CONVERSATION_TITLE_LENGTH
+    ? `${firstLine.slice(0, CONVERSATION_TITLE_LENGTH - 1)}…`
+    : firstLine;
+};
 
 export function ChatInterface() {
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [sessionId, setSessionId] = useState(`session-${Date.now()}`); // Default fallback
   const [showCredentialModal, setShowCredentialModal] = useState(false);
   const [showReferenceModal, setShowReferenceModal] = useState(false);
-  const [credentialRequirements, setCredentialRequirements] = useState<any>(null);
-  const [sessionServers, setSessionServers] = useState<SessionServer[]>([]);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [credentialRequirements, setCredentialRequirements] = useState<McpCredentialRequirement | null>(null);
+  const [detailServer, setDetailServer] = useState<McpServer | null>(null);
+  const compare = useCompareSelection();
+  const [showCompareModal, setShowCompareModal] = useState(false);
+  const [sessionServers, setSessionServers] = useState<ConfiguredServer[]>([]);
+  const [pendingServerActions, setPendingServerActions] = useState<Record<string, ServerAction>>({});
+  const toolPresets = useToolPresets();
+  // Presets can only run on servers that are up in this session
+  const sessionPresets = toolPresets.filter(preset =>
+    sessionServers.some(server => server.serverId === preset.server_id && server.isRunning)
+  );
   const [showSessionPanel, setShowSessionPanel] = useState(false);
   const [statusMessage, setStatusMessage] = useState<string>('');
   const [pendingFunctionCalls, setPendingFunctionCalls] = useState<FunctionCall[]>([]);
   const [conversationHistory, setConversationHistory] = useState<any[]>([]);
   const [isProcessingFunctions, setIsProcessingFunctions] = useState(false);
+  const [isExecutingTool, setIsExecutingTool] = useState(false);
+  const [conversations, setConversations] = useState<StoredConversation[]>([]);
+  const [showHistorySidebar, setShowHistorySidebar] = useState(false);
+  const [toolLaunchTarget, setToolLaunchTarget] = useState<ToolLaunchTarget | null>(null);
+  const [presetLaunchTarget, setPresetLaunchTarget] = useState<PresetLaunchTarget | null>(null);
   const [expandedFunctions, setExpandedFunctions] = useState<Set<string>>(new Set());
+  const [approvalPolicy, setApprovalPolicy] = useState<ToolApprovalPolicy>(DEFAULT_APPROVAL_POLICY);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Session whose stored conversation has been restored; nothing is saved until this matches sessionId
+  const restoredSessionRef = useRef<string | null>(null);
+  // Streams read the policy after awaiting the user, so they need the latest value rather than a stale closure
+  const approvalPolicyRef = useRef<ToolApprovalPolicy>(DEFAULT_APPROVAL_POLICY);
+  const approvalResolversRef = useRef(new Map<FunctionCall, (decision: ApprovalDecision) => void>());
+  const isBusy = isLoading || isProcessingFunctions || isExecutingTool;
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -67,23 +136,164 @@ export function ChatInterface() {
   useEffect(() => {
     if (typeof window !== 'undefined') {
       // Try to get existing sessionId from localStorage, or create new one
-      const existingSessionId = localStorage.getItem('mcp-chat-session-id');
-      if (existingSessionId) {
-        setSessionId(existingSessionId);
-      } else {
-        const newSessionId = `session-${Date.now()}`;
-        localStorage.setItem('mcp-chat-session-id', newSessionId);
-        setSessionId(newSessionId);
-      }
+      setSessionId(getOrCreateSessionId());
     }
   }, []);
 
   useEffect(scrollToBottom, [messages]);
 
+  useEffect(() => {
+    const policy = loadApprovalPolicy(sessionId);
+    approvalPolicyRef.current = policy;
+    setApprovalPolicy(policy);
+  }, [sessionId]);
+
+  const updateApprovalPolicy = (update: (policy: ToolApprovalPolicy) => ToolApprovalPolicy) => {
+    const next = update(approvalPolicyRef.current);
+    approvalPolicyRef.current = next;
+    setApprovalPolicy(next);
+    saveApprovalPolicy(sessionId, next);
+  };
+
+  const refreshConversations = async () => {
+    try {
+      setConversations(await conversationStore.listConversations());
+    } catch (error) {
+      console.error('Failed to load conversations:', error);
+    }
+  };
+
+  // Restore the stored conversation (including function-call cards) for the active session
+  useEffect(() => {
+    let cancelled = false;
+    restoredSessionRef.current = null;
+
+    conversationStore.getConversation(sessionId)
+      .catch((error) => {
+        console.error('Failed to restore conversation:', error);
+        return undefined;
+      })
+      .then((stored) => {
+        if (cancelled) return;
+        setMessages(stored?.messages || []);
+        setConversationHistory(stored?.conversation_history || []);
+        restoredSessionRef.current = sessionId;
+      });
+    refreshConversations();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  // Persist the active conversation whenever it changes
+  useEffect(() => {
+    if (restoredSessionRef.current !== sessionId || messages.length === 0) return;
+
+    const timer = setTimeout(async () => {
+      const lastMessage = messages[messages.length - 1];
+
+      try {
+        const existing = await conversationStore.getConversation(sessionId);
+        const conversation: StoredConversation = {
+          id: sessionId,
+          session_id: sessionId,
+          persona: 'assistant',
+          conversation_type: 'chat',
+          title: existing?.metadata?.custom_title ? existing.title : deriveConversationTitle(messages),
+          content: lastMessage.content.slice(0, 200),
+          metadata: existing?.metadata || {},
+          messages,
+          conversation_history: conversationHistory,
+          server_count: sessionServers.length,
+          created_at: existing?.created_at || messages[0].timestamp,
+          updated_at: lastMessage.timestamp,
+        };
+
+        await conversationStore.saveConversation(conversation);
+        await refreshConversations();
+      } catch (error) {
+        console.error('Failed to save conversation:', error);
+      }
+    }, 400);
+
+    return () => clearTimeout(timer);
+  }, [sessionId, messages, conversationHistory, sessionServers.length]);
+
+  const switchSession = (nextSessionId: string) => {
+    if (nextSessionId === sessionId) return;
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    restoredSessionRef.current = null;
+    storeSessionId(nextSessionId);
+    setMessages([]);
+    setConversationHistory([]);
+    setSessionServers([]);
+    setToolLaunchTarget(null);
+    setPresetLaunchTarget(null);
+    setPendingFunctionCalls([]);
+    setSessionId(nextSessionId);
+  };
+
+  const startNewConversation = () => {
+    switchSession(createSessionId());
+  };
+
+  const handleRenameConversation = async (targetSessionId: string, title: string) => {
+    try {
+      await conversationStore.renameConversation(targetSessionId, title);
+      await refreshConversations();
+    } catch (error) {
+      console.error('Failed to rename conversation:', error);
+    }
+  };
+
+  const handleDeleteConversation = async (targetSessionId: string) => {
+    try {
+      await conversationStore.deleteConversation(targetSessionId);
+      if (targetSessionId === sessionId) {
+        startNewConversation();
+      }
+      await refreshConversations();
+    } catch (error) {
+      console.error('Failed to delete conversation:', error);
+    }
+  };
+
+  // Abort whatever is still streaming when the component goes away
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const startRequest = () => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller.signal;
+  };
+
+  const finishRequest = (signal: AbortSignal) => {
+    if (abortControllerRef.current?.signal === signal) {
+      abortControllerRef.current = null;
+    }
+  };
+
+  const stopResponse = () => {
+    const controller = abortControllerRef.current;
+    if (!controller) return;
+    controller.abort();
+    abortControllerRef.current = null;
+    api.cancelSessionStream(sessionId);
+  };
+
+  const markInterrupted = (messageId: string) => {
+    setMessages(prev => prev.map(msg =>
+      msg.id === messageId ? { ...msg, interrupted: true } : msg
+    ));
+  };
+
   const sendMessage = async () => {
-    if (!input.trim() || isLoading || isProcessingFunctions) return;
+    if (!input.trim() || isBusy) return;
 
-    const userMessage: Message = {
+    const userMessage: ChatMessage = {
       id: `msg-${Date.now()}`,
       content: input,
       sender: 'user',
@@ -100,21 +310,13 @@ export function ChatInterface() {
       content: input
     }]);
 
-    try {
-      const response = await fetch(`http://localhost:3001/chat/${sessionId}/message`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ message: input }),
-      });
-
-      if (!response.body) {
-        throw new Error('No response body');
-      }
+    const signal = startRequest();
 
-      await processStreamingResponse(response.body, true);
+    try {
+      const responseBody = await api.sendMessage(sessionId, { message: input, tool_approval: approvalPolicyRef.current }, { signal });
+      await processStreamingResponse(responseBody, true, signal);
     } catch (error) {
+      if (api.isAbortError(error)) return;
       console.error('Error sending message:', error);
       setMessages(prev => [...prev, {
         id: `msg-${Date.now()}-error`,
@@ -124,14 +326,106 @@ export function ChatInterface() {
       }]);
     } finally {
       setIsLoading(false);
+      finishRequest(signal);
     }
   };
 
-  const processStreamingResponse = async (responseBody: ReadableStream<Uint8Array>, isInitialMessage: boolean = false) => {
-    const reader = responseBody.getReader();
-    const decoder = new TextDecoder();
-    
-    let assistantMessage: Message = {
+  // Parks a function call until the user approves or denies it from its card
+  const requestApproval = (functionCall: FunctionCall, signal?: AbortSignal) =>
+    new Promise<ApprovalDecision>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException('The approval was aborted.', 'AbortError'));
+        return;
+      }
+
+      const cleanup = () => {
+        approvalResolversRef.current.delete(functionCall);
+        setPendingFunctionCalls(prev => prev.filter(fc => fc !== functionCall));
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const onAbort = () => {
+        cleanup();
+        reject(new DOMException('The approval was aborted.', 'AbortError'));
+      };
+
+      approvalResolversRef.current.set(functionCall, (decision) => {
+        cleanup();
+        resolve(decision);
+      });
+      signal?.addEventListener('abort', onAbort);
+      setPendingFunctionCalls(prev => [...prev, functionCall]);
+    });
+
+  const runAndRecordTool = async (serverId: string, toolName: string, parameters: Record<string, any>, signal?: AbortSignal) => {
+    const startedAt = Date.now();
+    const result = await runTool(sessionId, serverId, toolName, parameters, signal);
+    executionLog.recordExecution(sessionId, { serverId, toolName, parameters, startedAt, result, source: 'chat' });
+    return result;
+  };
+
+  /**
+   * Applies the session's approval policy to the tool calls the assistant
+   * proposed. Calls the backend already executed are passed through, since
+   * denying or editing them can no longer undo the run; those the policy
+   * should have held back are flagged `ranBeforeApproval`. The rest are
+   * executed here once approved; denied calls get a structured denial result
+   * for `/function-results`.
+   */
+  const resolveToolCalls = async (functionCalls: FunctionCall[], signal?: AbortSignal) => {
+    const resolved: FunctionCall[] = [];
+
+    for (const functionCall of functionCalls) {
+      const target = getToolCallTarget(functionCall);
+      if (!target) {
+        resolved.push(functionCall);
+        continue;
+      }
+
+      // Without the discovered tool list the name alone decides, and unclassified tools ask
+      const tools = await discoverServerTools(sessionId, target.serverId).catch(() => [] as McpToolDefinition[]);
+      const annotations = tools.find(tool => tool.name === target.toolName)?.annotations;
+      const needsApproval = requiresApproval(approvalPolicyRef.current, target, annotations);
+
+      if (functionCall.function_result?.type === 'tool_execution_result') {
+        resolved.push(needsApproval ? { ...functionCall, ranBeforeApproval: true } : functionCall);
+        continue;
+      }
+
+      const decision: ApprovalDecision = needsApproval
+        ? await requestApproval(functionCall, signal)
+        : { approved: true, parameters: target.parameters, alwaysAllow: false };
+
+      if (!decision.approved) {
+        resolved.push({ ...functionCall, function_result: buildDenialResult(target, decision.reason) });
+        continue;
+      }
+
+      if (decision.alwaysAllow) {
+        const key = allowlistKey(target.serverId, target.toolName);
+        updateApprovalPolicy(policy => policy.allowlist.includes(key)
+          ? policy
+          : { ...policy, allowlist: [...policy.allowlist, key] });
+      }
+
+      resolved.push({
+        ...functionCall,
+        function_args: { ...functionCall.function_args, parameters: decision.parameters },
+        function_result: {
+          type: 'tool_execution_result',
+          result: await runAndRecordTool(target.serverId, target.toolName, decision.parameters, signal),
+        },
+      });
+    }
+
+    return resolved;
+  };
+
+  const processStreamingResponse = async (
+    responseBody: ReadableStream<Uint8Array>,
+    isInitialMessage: boolean = false,
+    signal?: AbortSignal
+  ) => {
+    let assistantMessage: ChatMessage = {
       id: `msg-${Date.now()}-assistant`,
       content: '',
       sender: 'assistant',
@@ -144,74 +438,77 @@ export function ChatInterface() {
 
     setMessages(prev => [...prev, assistantMessage]);
 
+    const updateAssistantContent = () => {
+      setMessages(prev => prev.map(msg => 
+        msg.id === assistantMessage.id 
+          ? { ...msg, content: assistantMessage.content }
+          : msg
+      ));
+    };
+
     try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value, { stream: true });
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') {
-              // Only process function calls that should continue the conversation
-              // Don't auto-process recommendation function calls - wait for user action
-              // Don't auto-process final function calls - they terminate the flow
-              const shouldProcessFunctionResults = currentFunctionCalls.some(fc => 
-                fc.function_result?.type !== 'mcp_recommendations' &&
-                fc.function_result?.requires_user_action !== true &&
-                fc.function_result?.is_final !== true
-              );
-
-              if (shouldProcessFunctionResults && currentFunctionCalls.length > 0) {
-                await processFunctionCallResults(currentFunctionCalls, textContent);
-              }
-              return;
-            }
-
-            try {
-              const parsed = JSON.parse(data);
-              
-              if (parsed.type === 'text') {
-                textContent += parsed.content;
-                assistantMessage.content += parsed.content;
-                setMessages(prev => prev.map(msg => 
-                  msg.id === assistantMessage.id 
-                    ? { ...msg, content: assistantMessage.content }
-                    : msg
-                ));
-              } else if (parsed.type === 'function_call') {
-                const functionCall: FunctionCall = {
-                  type: 'function_call',
-                  function_name: parsed.function_name,
-                  function_args: parsed.function_args,
-                  function_result: parsed.function_result,
-                };
-                
-                currentFunctionCalls.push(functionCall);
-                assistantMessage.functionCalls = [...(assistantMessage.functionCalls || []), functionCall];
-                
-                setMessages(prev => prev.map(msg => 
-                  msg.id === assistantMessage.id 
-                    ? { ...msg, functionCalls: assistantMessage.functionCalls }
-                    : msg
-                ));
-              }
-            } catch (e) {
-              // Ignore parsing errors for malformed chunks
-            }
-          }
+      const receivedDone = await readChatStream(responseBody, (event) => {
+        if (event.type === 'text') {
+          textContent += event.content;
+          assistantMessage.content += event.content;
+          updateAssistantContent();
+        } else if (event.type === 'function_call') {
+          const functionCall: FunctionCall = {
+            type: 'function_call',
+            function_name: event.function_name,
+            function_args: event.function_args,
+            function_result: event.function_result,
+          };
+          
+          currentFunctionCalls.push(functionCall);
+          assistantMessage.functionCalls = [...(assistantMessage.functionCalls || []), functionCall];
+          
+          setMessages(prev => prev.map(msg => 
+            msg.id === assistantMessage.id 
+              ? { ...msg, functionCalls: assistantMessage.functionCalls }
+              : msg
+          ));
+        } else if (event.type === 'error') {
+          assistantMessage.content += `\n\n❌ ${event.message || event.error || 'The assistant reported an error.'}`;
+          updateAssistantContent();
         }
+      }, signal);
+
+      if (!receivedDone || signal?.aborted) return;
+
+      if (currentFunctionCalls.some(fc => getToolCallTarget(fc))) {
+        currentFunctionCalls = await resolveToolCalls(currentFunctionCalls, signal);
+        assistantMessage.functionCalls = currentFunctionCalls;
+        setMessages(prev => prev.map(msg =>
+          msg.id === assistantMessage.id
+            ? { ...msg, functionCalls: assistantMessage.functionCalls }
+            : msg
+        ));
+      }
+
+      // Only process function calls that should continue the conversation
+      // Don't auto-process recommendation function calls - wait for user action
+      // Don't auto-process final function calls - they terminate the flow
+      const shouldProcessFunctionResults = currentFunctionCalls.some(fc => 
+        fc.function_result?.type !== 'mcp_recommendations' &&
+        fc.function_result?.requires_user_action !== true &&
+        fc.function_result?.is_final !== true
+      );
+
+      if (shouldProcessFunctionResults && currentFunctionCalls.length > 0) {
+        await processFunctionCallResults(currentFunctionCalls, textContent, signal);
       }
     } catch (error) {
+      if (api.isAbortError(error)) {
+        markInterrupted(assistantMessage.id);
+        return;
+      }
       console.error('Error processing stream:', error);
     }
   };
 
-  const processFunctionCallResults = async (functionCalls: FunctionCall[], textContent: string) => {
-    if (functionCalls.length === 0) return;
+  const processFunctionCallResults = async (functionCalls: FunctionCall[], textContent: string, signal?: AbortSignal) => {
+    if (functionCalls.length === 0 || signal?.aborted) return;
 
     setIsProcessingFunctions(true);
 
@@ -239,23 +536,15 @@ export function ChatInterface() {
     }));
 
     try {
-      const response = await fetch(`http://localhost:3001/chat/${sessionId}/function-results`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          function_results: functionResults,
-          conversation_history: updatedHistory
-        }),
-      });
-
-      if (!response.body) {
-        throw new Error('No response body');
-      }
+      const responseBody = await api.sendFunctionResults(sessionId, {
+        function_results: functionResults,
+        conversation_history: updatedHistory,
+        tool_approval: approvalPolicyRef.current,
+      }, { signal });
 
-      await processStreamingResponse(response.body, false);
+      await processStreamingResponse(responseBody, false, signal);
     } catch (error) {
+      if (api.isAbortError(error)) return;
       console.error('Error processing function results:', error);
       setMessages(prev => [...prev, {
         id: `msg-${Date.now()}-error`,
@@ -271,8 +560,7 @@ export function ChatInterface() {
   const handleAddServer = async (serverId: string, serverName: string) => {
     try {
       // Check if server requires credentials
-      const response = await fetch(`http://localhost:3001/chat/${sessionId}/servers/${serverId}/credentials/requirements`);
-      const data = await response.json();
+      const data = await api.getCredentialRequirements(sessionId, serverId);
       
       if (data.credential_requirements && data.credential_requirements.length > 0) {
         setCredentialRequirements({
@@ -283,50 +571,43 @@ export function ChatInterface() {
         setShowCredentialModal(true);
       } else {
         // Server doesn't need credentials, add directly
-        const addResponse = await fetch(`http://localhost:3001/chat/${sessionId}/servers/${serverId}`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ server_name: serverName })
-        });
-        
-        const addResult = await addResponse.json();
+        const addResult = await api.addServer(sessionId, serverId, { server_name: serverName });
+        invalidateServerTools(sessionId, serverId);
         
-        // Update session servers with a small delay to ensure backend processing is complete
-        setTimeout(() => {
-          loadSessionServers();
-        }, 100);
+        // Status changes as the server starts arrive over the live server events stream
+        loadSessionServers();
         setStatusMessage(`✅ Added ${serverName} to your session!`);
         setTimeout(() => setStatusMessage(''), 3000);
 
         // Trigger function results continuation after successful server addition
+        const signal = startRequest();
+        setIsProcessingFunctions(true);
         try {
-          const continuationResponse = await fetch(`http://localhost:3001/chat/${sessionId}/function-results`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              function_results: [{
-                id: `server-added-${Date.now()}`,
-                function_name: 'add_server_to_session',
-                function_result: {
-                  type: 'server_added_success',
-                  server_id: serverId,
-                  server_name: serverName,
-                  message: `Successfully added ${serverName} to session`,
-                  success: true,
-                  ...addResult
-                }
-              }],
-              conversation_history: conversationHistory
-            }),
-          });
-
-          if (continuationResponse.body) {
-            await processStreamingResponse(continuationResponse.body, false);
-          }
+          const continuationBody = await api.sendFunctionResults(sessionId, {
+            function_results: [{
+              id: `server-added-${Date.now()}`,
+              function_name: 'add_server_to_session',
+              function_result: {
+                type: 'server_added_success',
+                server_id: serverId,
+                server_name: serverName,
+                message: `Successfully added ${serverName} to session`,
+                success: true,
+                ...addResult
+              }
+            }],
+            conversation_history: conversationHistory,
+            tool_approval: approvalPolicyRef.current,
+          }, { signal });
+
+          await processStreamingResponse(continuationBody, false, signal);
         } catch (error) {
-          console.error('Error continuing conversation after server addition:', error);
+          if (!api.isAbortError(error)) {
+            console.error('Error continuing conversation after server addition:', error);
+          }
+        } finally {
+          setIsProcessingFunctions(false);
+          finishRequest(signal);
         }
       }
     } catch (error) {
@@ -336,6 +617,96 @@ export function ChatInterface() {
     }
   };
 
+  const showStatus = (message: string) => {
+    setStatusMessage(message);
+    setTimeout(() => setStatusMessage(''), 3000);
+  };
+
+  const requestServerCredentials = async (serverId: string, serverName: string) => {
+    const data = await api.getCredentialRequirements(sessionId, serverId);
+    if (!data.credential_requirements || data.credential_requirements.length === 0) {
+      showStatus(`ℹ️ ${serverName} doesn't need any credentials`);
+      return;
+    }
+    setCredentialRequirements({
+      server_id: serverId,
+      server_name: serverName,
+      required_fields: data.credential_requirements
+    });
+    setShowCredentialModal(true);
+  };
+
+  /**
+   * Runs a lifecycle action against a session server. The panel is updated
+   * optimistically and the server's previous entry is put back if the
+   * backend rejects the action.
+   */
+  const handleServerAction = async (serverId: string, action: ServerAction) => {
+    const server = sessionServers.find(s => s.serverId === serverId);
+    if (!server || pendingServerActions[serverId]) return;
+    if (action === 'remove' && !window.confirm(`Remove ${server.serverName} from this session?`)) return;
+
+    const originalIndex = sessionServers.indexOf(server);
+    setPendingServerActions(prev => ({ ...prev, [serverId]: action }));
+
+    if (action === 'remove') {
+      setSessionServers(prev => prev.filter(s => s.serverId !== serverId));
+    } else if (action === 'stop' || action === 'restart') {
+      setSessionServers(prev => prev.map(s =>
+        s.serverId === serverId ? { ...s, isRunning: action === 'restart', status: undefined, statusError: undefined } : s
+      ));
+    }
+
+    try {
+      if (action === 'credentials') {
+        await requestServerCredentials(serverId, server.serverName);
+        return;
+      }
+
+      if (action === 'remove') {
+        await api.removeServer(sessionId, serverId);
+      } else {
+        const response = action === 'stop'
+          ? await api.stopServer(sessionId, serverId)
+          : await api.restartServer(sessionId, serverId);
+        if (response.success === false) throw new Error(response.message || `Could not ${action} the server`);
+      }
+
+      invalidateServerTools(sessionId, serverId);
+      showStatus({
+        remove: `🗑️ Removed ${server.serverName} from your session`,
+        stop: `⏹️ Stopped ${server.serverName}`,
+        restart: `🔄 Restarted ${server.serverName}`,
+      }[action]);
+      if (action === 'restart') loadSessionServers();
+    } catch (error) {
+      console.error(`Failed to ${action} server ${serverId}:`, error);
+      if (action !== 'credentials') {
+        setSessionServers(prev => {
+          const others = prev.filter(s => s.serverId !== serverId);
+          others.splice(Math.min(originalIndex, others.length), 0, server);
+          return others;
+        });
+      }
+      showStatus(`❌ Failed to ${action === 'credentials' ? 'load credentials for' : action} ${server.serverName}: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setPendingServerActions(prev => {
+        const next = { ...prev };
+        delete next[serverId];
+        return next;
+      });
+    }
+  };
+
+  const handleServersImported = (results: ImportServerResult[]) => {
+    const added = results.filter(result => result.success);
+    added.forEach(result => invalidateServerTools(sessionId, result.server_id));
+    if (added.length > 0) loadSessionServers();
+    showStatus(added.length === results.length
+      ? `✅ Imported ${added.length} server${added.length === 1 ? '' : 's'}`
+      : `⚠️ Imported ${added.length} of ${results.length} servers`);
+  };
+
   const handleCredentialsSubmitted = async (success: boolean, message: string, serverId?: string) => {
     setShowCredentialModal(false);
     setCredentialRequirements(null);
@@ -343,10 +714,11 @@ export function ChatInterface() {
     setTimeout(() => setStatusMessage(''), 5000);
     
     if (success && serverId) {
-      // Wait a moment for backend to process, then refresh session
-      setTimeout(() => {
-        loadSessionServers();
-      }, 1000);
+      // The server (re)starts with the new credentials, so its tool list may have changed
+      invalidateServerTools(sessionId, serverId);
+
+      // The server's restart is reported over the live server events stream
+      loadSessionServers();
       
       // // Send a simple completion message instead of triggering more function calls
       // const completionMessage: Message = {
@@ -360,37 +732,59 @@ export function ChatInterface() {
     }
   };
 
+  // Presets can be imported from files, so check them against the tool before a one-click run
+  const runPreset = async (preset: ToolPreset) => {
+    const tools = await discoverServerTools(sessionId, preset.server_id).catch(() => [] as McpToolDefinition[]);
+    const tool = tools.find(t => t.name === preset.tool_name);
+    const errors = validateToolParameters(tool?.inputSchema, preset.parameters);
+    if (tool && Object.keys(errors).length > 0) {
+      setPresetLaunchTarget({ preset, tool, errors });
+      return;
+    }
+    setPresetLaunchTarget(null);
+    handleExecuteTool(preset.server_id, preset.tool_name, preset.parameters);
+  };
+
   const handleExecuteTool = async (serverId: string, toolName: string, parameters: any = {}) => {
+    if (isBusy) return;
+
+    const signal = startRequest();
+    setIsExecutingTool(true);
+
+    // Add a loading message to indicate tool execution started
+    const loadingMessage: ChatMessage = {
+      id: `msg-${Date.now()}-tool-loading`,
+      content: `🔧 Executing \`${toolName}\` on \`${serverId}\`...`,
+      sender: 'assistant',
+      timestamp: new Date(),
+    };
+
     try {
-      // Add a loading message to indicate tool execution started
-      const loadingMessage: Message = {
-        id: `msg-${Date.now()}-tool-loading`,
-        content: `🔧 Executing \`${toolName}\` on \`${serverId}\`...`,
-        sender: 'assistant',
-        timestamp: new Date(),
-      };
-      
       setMessages(prev => [...prev, loadingMessage]);
       
-      const response = await fetch(`http://localhost:3001/chat/${sessionId}/servers/${serverId}/tools/${toolName}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ parameters })
-      });
-      
-      if (!response.body) {
-        throw new Error('No response body');
-      }
+      const startedAt = Date.now();
+      const responseBody = await api.executeTool(sessionId, serverId, toolName, { parameters }, { signal });
 
       // Remove the loading message and process streaming response
       setMessages(prev => prev.filter(msg => msg.id !== loadingMessage.id));
       
       // Handle streaming response similar to sendMessage
-      await processToolExecutionStream(response.body, serverId, toolName);
+      const result = await processToolExecutionStream(responseBody, serverId, toolName, signal);
+      if (result) {
+        executionLog.recordExecution(sessionId, { serverId, toolName, parameters, startedAt, result, source: 'chat' });
+      }
       
     } catch (error) {
+      if (api.isAbortError(error)) {
+        setMessages(prev => prev.map(msg =>
+          msg.id === loadingMessage.id
+            ? { ...msg, content: `⏹️ Stopped \`${toolName}\` on \`${serverId}\`.`, interrupted: true }
+            : msg
+        ));
+        return;
+      }
       console.error('Error executing tool:', error);
-      const errorMessage: Message = {
+      const errorMessage: ChatMessage = {
         id: `msg-${Date.now()}-tool-error`,
         content: `❌ Error executing \`${toolName}\`: ${error instanceof Error ? error.message : String(error)}`,
         sender: 'assistant',
@@ -398,14 +792,19 @@ export function ChatInterface() {
       };
       
       setMessages(prev => [...prev, errorMessage]);
+    } finally {
+      setIsExecutingTool(false);
+      finishRequest(signal);
     }
   };
 
-  const processToolExecutionStream = async (responseBody: ReadableStream<Uint8Array>, serverId: string, toolName: string) => {
-    const reader = responseBody.getReader();
-    const decoder = new TextDecoder();
-    
-    let toolExecutionMessage: Message = {
+  const processToolExecutionStream = async (
+    responseBody: ReadableStream<Uint8Array>,
+    serverId: string,
+    toolName: string,
+    signal?: AbortSignal
+  ): Promise<ToolExecutionResult | null> => {
+    let toolExecutionMessage: ChatMessage = {
       id: `msg-${Date.now()}-tool-result`,
       content: '',
       sender: 'assistant',
@@ -414,87 +813,85 @@ export function ChatInterface() {
 
     let hasExecutionResult = false;
     let hasAiAnalysis = false;
+    // What the run ended with, for the execution log
+    let finalResult = null as ToolExecutionResult | null;
 
     try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value, { stream: true });
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') {
-              return;
-            }
-
-            try {
-              const parsed = JSON.parse(data);
-              
-              if (parsed.type === 'tool_execution_result') {
-                // Display tool execution result
-                const resultMessage = `🔧 **Tool Execution Result: \`${toolName}\`**\n\n`;
-                const statusMessage = parsed.result.success 
-                  ? `✅ **Status**: ${parsed.result.message}\n`
-                  : `❌ **Status**: ${parsed.result.message}\n`;
-                
-                const detailsMessage = `**Execution Time**: ${parsed.result.execution_time}ms\n\n`;
-                
-                let resultContent = '';
-                if (parsed.result.result && Array.isArray(parsed.result.result)) {
-                  resultContent = `**Results** (${parsed.result.result.length} items):\n\`\`\`json\n${JSON.stringify(parsed.result.result, null, 2)}\n\`\`\`\n\n`;
-                } else if (parsed.result.result) {
-                  resultContent = `**Result**:\n\`\`\`json\n${JSON.stringify(parsed.result.result, null, 2)}\n\`\`\`\n\n`;
-                }
-
-                toolExecutionMessage.content = resultMessage + statusMessage + detailsMessage + resultContent;
-                
-                if (!hasExecutionResult) {
-                  setMessages(prev => [...prev, toolExecutionMessage]);
-                  hasExecutionResult = true;
-                } else {
-                  setMessages(prev => prev.map(msg => 
-                    msg.id === toolExecutionMessage.id 
-                      ? { ...msg, content: toolExecutionMessage.content }
-                      : msg
-                  ));
-                }
-              } else if (parsed.type === 'ai_analysis') {
-                // Add AI analysis as separate content
-                if (hasExecutionResult) {
-                  // Update the existing message with AI analysis
-                  const analysisContent = `\n---\n\n🤖 **AI Analysis**:\n\n${parsed.content}`;
-                  toolExecutionMessage.content += analysisContent;
-                  
-                  setMessages(prev => prev.map(msg => 
-                    msg.id === toolExecutionMessage.id 
-                      ? { ...msg, content: toolExecutionMessage.content }
-                      : msg
-                  ));
-                } else {
-                  // Create new message with just AI analysis if execution result wasn't captured
-                  const analysisMessage: Message = {
-                    id: `msg-${Date.now()}-ai-analysis`,
-                    content: `🤖 **AI Analysis of \`${toolName}\` execution**:\n\n${parsed.content}`,
-                    sender: 'assistant',
-                    timestamp: new Date(),
-                  };
-                  setMessages(prev => [...prev, analysisMessage]);
-                }
-                hasAiAnalysis = true;
-              }
-            } catch (e) {
-              // Ignore parsing errors for malformed chunks
-              console.warn('Failed to parse streaming chunk:', e);
-            }
+      await readChatStream(responseBody, (event) => {
+        if (event.type === 'tool_execution_result') {
+          finalResult = event.result;
+          // The result itself is rendered by the execution results card
+          toolExecutionMessage.content = `🔧 **Tool Execution Result: \`${toolName}\`**`;
+          toolExecutionMessage.functionCalls = [{
+            type: 'function_call',
+            function_name: toolName,
+            function_args: { server_id: serverId, tool_name: toolName },
+            function_result: {
+              type: 'tool_execution_result',
+              result: { server_id: serverId, tool_name: toolName, ...event.result },
+            },
+          }];
+          
+          if (!hasExecutionResult) {
+            setMessages(prev => [...prev, toolExecutionMessage]);
+            hasExecutionResult = true;
+          } else {
+            setMessages(prev => prev.map(msg => 
+              msg.id === toolExecutionMessage.id 
+                ? { ...msg, content: toolExecutionMessage.content, functionCalls: toolExecutionMessage.functionCalls }
+                : msg
+            ));
+          }
+        } else if (event.type === 'ai_analysis') {
+          // Add AI analysis as separate content
+          if (hasExecutionResult) {
+            // Update the existing message with AI analysis
+            const analysisContent = `\n---\n\n🤖 **AI Analysis**:\n\n${event.content}`;
+            toolExecutionMessage.content += analysisContent;
+            
+            setMessages(prev => prev.map(msg => 
+              msg.id === toolExecutionMessage.id 
+                ? { ...msg, content: toolExecutionMessage.content }
+                : msg
+            ));
+          } else {
+            // Create new message with just AI analysis if execution result wasn't captured
+            const analysisMessage: ChatMessage = {
+              id: `msg-${Date.now()}-ai-analysis`,
+              content: `🤖 **AI Analysis of \`${toolName}\` execution**:\n\n${event.content}`,
+              sender: 'assistant',
+              timestamp: new Date(),
+            };
+            setMessages(prev => [...prev, analysisMessage]);
           }
+          hasAiAnalysis = true;
+        } else if (event.type === 'error') {
+          finalResult = { success: false, error: event.error || event.message || 'Unknown error' };
+          setMessages(prev => [...prev, {
+            id: `msg-${Date.now()}-tool-error`,
+            content: `❌ Error executing \`${toolName}\`: ${event.error || event.message || 'Unknown error'}`,
+            sender: 'assistant',
+            timestamp: new Date(),
+          }]);
         }
-      }
+      }, signal);
     } catch (error) {
+      if (api.isAbortError(error)) {
+        if (hasExecutionResult) {
+          markInterrupted(toolExecutionMessage.id);
+        } else {
+          setMessages(prev => [...prev, {
+            id: `msg-${Date.now()}-tool-stopped`,
+            content: `⏹️ Stopped \`${toolName}\` on \`${serverId}\`.`,
+            sender: 'assistant',
+            timestamp: new Date(),
+            interrupted: true,
+          }]);
+        }
+        return null;
+      }
       console.error('Error processing tool execution stream:', error);
-      const errorMessage: Message = {
+      const errorMessage: ChatMessage = {
         id: `msg-${Date.now()}-stream-error`,
         content: `❌ Error processing tool execution results: ${error instanceof Error ? error.message : String(error)}`,
         sender: 'assistant',
@@ -502,16 +899,27 @@ export function ChatInterface() {
       };
       setMessages(prev => [...prev, errorMessage]);
     }
+
+    return finalResult;
   };
 
   const loadSessionServers = async () => {
     try {
       console.log(`Loading session servers for session: ${sessionId}`);
-      const response = await fetch(`http://localhost:3001/chat/${sessionId}/servers`);
-      const data = await response.json();
+      const [data, configured] = await Promise.all([
+        api.getSessionServers(sessionId),
+        // Status is a nice-to-have; still list the servers if it can't be fetched
+        api.getConfiguredServers(sessionId).catch((error) => {
+          console.warn('Failed to load server status:', error);
+          return { servers: [] as ConfiguredServer[] };
+        }),
+      ]);
       console.log('Session servers response:', data);
-      setSessionServers(data.servers || []);
-      console.log('Updated session servers state:', data.servers || []);
+      const servers = (data.servers || []).map((server) => {
+        const status = configured.servers?.find(s => s.serverId === server.serverId);
+        return status ? { ...server, isRunning: status.isRunning, needsCredentials: status.needsCredentials } : server;
+      });
+      setSessionServers(servers);
     } catch (error) {
       console.error('Failed to load session servers:', error);
     }
@@ -521,6 +929,31 @@ export function ChatInterface() {
     loadSessionServers();
   }, [sessionId]);
 
+  const handleServerEvent = (event: ServerEvent) => {
+    switch (event.type) {
+      case 'server_status':
+        if (!sessionServers.some(s => s.serverId === event.server_id)) {
+          // A server we haven't listed yet, e.g. added by the assistant
+          loadSessionServers();
+          return;
+        }
+        setSessionServers(prev => prev.map(s => (s.serverId === event.server_id ? applyServerStatus(s, event) : s)));
+        if (event.status === 'crashed') {
+          showStatus(`⚠️ ${sessionServers.find(s => s.serverId === event.server_id)?.serverName || event.server_id} crashed${event.error ? `: ${event.error}` : ''}`);
+        }
+        break;
+      case 'tools_changed':
+        invalidateServerTools(sessionId, event.server_id);
+        break;
+      case 'server_removed':
+        invalidateServerTools(sessionId, event.server_id);
+        setSessionServers(prev => prev.filter(s => s.serverId !== event.server_id));
+        break;
+    }
+  };
+
+  const isServerStatusLive = useServerEvents(sessionId, handleServerEvent, loadSessionServers);
+
   const toggleFunctionExpansion = (functionId: string) => {
     setExpandedFunctions(prev => {
       const newSet = new Set(prev);
@@ -544,7 +977,7 @@ export function ChatInterface() {
       : !expandedFunctions.has(`collapsed-${functionId}`);
     
     if (functionCall.function_result?.type === 'mcp_recommendations') {
-      const servers = functionCall.function_result.recommendations || [];
+      const servers: McpServer[] = (functionCall.function_result.recommendations || []).map(toRecommendedServer);
       return (
         <div className="mt-4 border-t border-gray-100 pt-4">
           <div 
@@ -560,38 +993,19 @@ export function ChatInterface() {
           
           {isExpanded && (
             <div className="mt-3 space-y-3">
-              {servers.map((server: McpServer) => (
-                <div key={server.id} className="border border-gray-200 rounded-lg p-4 bg-gray-50">
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <div className="flex items-center space-x-2 mb-2">
-                        <h4 className="font-medium text-sm text-gray-900">{server.name}</h4>
-                        <span className="px-2 py-1 bg-gray-200 text-gray-700 rounded text-xs font-medium">
-                          {server.category}
-                        </span>
-                        {server.metadata?.quality_score && (
-                          <span className="px-2 py-1 bg-green-100 text-green-700 rounded text-xs">
-                            {server.metadata.quality_score}
-                          </span>
-                        )}
-                      </div>
-                      <p className="text-xs text-gray-600 mb-3 leading-relaxed">{server.description}</p>
-                      {server.tools && server.tools.length > 0 && (
-                        <div className="mb-3">
-                          <span className="text-xs font-medium text-gray-700">Tools: </span>
-                          <span className="text-xs text-gray-600">{server.tools.slice(0, 3).join(', ')}</span>
-                          {server.tools.length > 3 && <span className="text-xs text-gray-500"> +{server.tools.length - 3} more</span>}
-                        </div>
-                      )}
-                    </div>
-                    <button
-                      onClick={() => handleAddServer(server.id, server.name)}
-                      className="ml-4 px-3 py-2 bg-black text-white text-xs font-medium rounded-lg hover:bg-gray-800 transition-colors flex items-center space-x-1"
-                    >
-                      <span>Add</span>
-                    </button>
-                  </div>
-                </div>
+              {servers.map((server) => (
+                <McpServerCard
+                  key={server.id}
+                  server={server}
+                  sessionId={sessionId}
+                  isInSession={sessionServers.some(s => s.serverId === server.id)}
+                  onAddToSession={(recommended) => handleAddServer(recommended.id, recommended.name)}
+                  onRemoveFromSession={(serverId) => handleServerAction(serverId, 'remove')}
+                  onShowDetails={setDetailServer}
+                  isSelectedForCompare={compare.isSelected(server.id)}
+                  compareDisabled={compare.isFull}
+                  onToggleCompare={compare.toggle}
+                />
               ))}
             </div>
           )}
@@ -669,25 +1083,51 @@ export function ChatInterface() {
                     <span className="text-xs text-gray-500">({server.tools?.length || 0} tools)</span>
                   </div>
                   {server.tools && server.tools.length > 0 ? (
-                    <div className="flex flex-wrap gap-2">
-                      {server.tools.map((tool: any, toolIndex: number) => {
-                        // Handle both string and object tool formats
-                        const toolName = typeof tool === 'string' ? tool : tool.name;
-                        const toolDescription = typeof tool === 'string' ? tool : tool.description;
-                        
-                        return (
-                          <button
-                            key={toolIndex}
-                            onClick={() => handleExecuteTool(server.server_id, toolName)}
-                            className="bg-black text-white px-3 py-2 rounded-lg text-xs font-medium hover:bg-gray-800 transition-colors flex items-center space-x-2 group"
-                            title={toolDescription}
-                          >
-                            <span>{toolName}</span>
-                            <Zap size={12} className="opacity-70 group-hover:opacity-100" />
-                          </button>
-                        );
-                      })}
-                    </div>
+                    <>
+                      <div className="flex flex-wrap gap-2">
+                        {server.tools.map((rawTool: any, toolIndex: number) => {
+                          const tool = toToolDefinition(rawTool);
+                          const isSelected = toolLaunchTarget?.functionCall === functionCall &&
+                            toolLaunchTarget.serverId === server.server_id &&
+                            toolLaunchTarget.tool.name === tool.name;
+                          
+                          return (
+                            <button
+                              key={toolIndex}
+                              onClick={() => setToolLaunchTarget(isSelected ? null : {
+                                functionCall,
+                                serverId: server.server_id,
+                                serverName: server.server_name,
+                                tool,
+                              })}
+                              disabled={isBusy}
+                              className={`px-3 py-2 rounded-lg text-xs font-medium transition-colors flex items-center space-x-2 group disabled:opacity-50 disabled:cursor-not-allowed ${
+                                isSelected ? 'bg-gray-200 text-black border border-gray-300' : 'bg-black text-white hover:bg-gray-800'
+                              }`}
+                              title={tool.description || tool.name}
+                            >
+                              <span>{tool.name}</span>
+                              <Zap size={12} className="opacity-70 group-hover:opacity-100" />
+                            </button>
+                          );
+                        })}
+                      </div>
+                      {toolLaunchTarget?.functionCall === functionCall && toolLaunchTarget.serverId === server.server_id && (
+                        <ToolLaunchPanel
+                          key={toolLaunchTarget.tool.name}
+                          sessionId={sessionId}
+                          serverId={toolLaunchTarget.serverId}
+                          serverName={toolLaunchTarget.serverName}
+                          tool={toolLaunchTarget.tool}
+                          disabled={isBusy}
+                          onCancel={() => setToolLaunchTarget(null)}
+                          onExecute={(parameters) => {
+                            setToolLaunchTarget(null);
+                            handleExecuteTool(toolLaunchTarget.serverId, toolLaunchTarget.tool.name, parameters);
+                          }}
+                        />
+                      )}
+                    </>
                   ) : (
                     <p className="text-xs text-gray-500 italic">No tools available</p>
                   )}
@@ -699,10 +1139,33 @@ export function ChatInterface() {
       );
     }
 
+    if (functionCall.function_result?.type === 'tool_call_denied') {
+      return (
+        <div className="mt-4 border-t border-gray-100 pt-4">
+          <div className="flex items-center space-x-2 py-2">
+            <ShieldOff size={14} className="text-gray-600" />
+            <span className="text-xs font-medium text-gray-900">TOOL CALL DENIED</span>
+            <code className="text-xs bg-gray-100 px-2 py-1 rounded font-mono">
+              {functionCall.function_result.server_id} → {functionCall.function_result.tool_name}
+            </code>
+          </div>
+          <p className="text-xs text-gray-600">{functionCall.function_result.message}</p>
+        </div>
+      );
+    }
+
     if (functionCall.function_result?.type === 'tool_execution_result') {
       const result = functionCall.function_result.result;
       return (
         <div className="mt-4 border-t border-gray-100 pt-4">
+          {functionCall.ranBeforeApproval && (
+            <div role="status" className="flex items-start space-x-2 mb-2 p-2 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-lg">
+              <ShieldOff size={14} className="mt-0.5 flex-shrink-0" />
+              <span>
+                The backend ran this tool before it could be approved. Its server doesn&apos;t honour the Tool Approval setting yet, so calls like this one run without asking.
+              </span>
+            </div>
+          )}
           <div 
             className="flex items-center justify-between cursor-pointer py-2 hover:bg-gray-50 rounded px-2 -mx-2"
             onClick={() => toggleFunctionExpansion(functionId)}
@@ -730,12 +1193,19 @@ export function ChatInterface() {
                     <span className="text-xs text-gray-600">{result.execution_time}ms</span>
                   </div>
                 )}
-                {result.result && (
+                {result.error && (
+                  <div className="flex justify-between items-start">
+                    <span className="text-xs font-medium text-gray-700">Error:</span>
+                    <span className="text-xs text-red-600 text-right ml-4">{result.error}</span>
+                  </div>
+                )}
+                {result.result !== undefined && result.result !== null && (
                   <div className="mt-3">
                     <span className="text-xs font-medium text-gray-700 block mb-2">Result:</span>
-                    <pre className="text-xs bg-white p-3 rounded border border-gray-200 overflow-x-auto text-gray-800 leading-relaxed">
-                      {typeof result.result === 'string' ? result.result : JSON.stringify(result.result, null, 2)}
-                    </pre>
+                    <ToolResultViewer
+                      value={result.result}
+                      fileName={[result.server_id, result.tool_name || functionCall.function_args?.tool_name].filter(Boolean).join('-') || 'tool-result'}
+                    />
                   </div>
                 )}
               </div>
@@ -818,10 +1288,10 @@ export function ChatInterface() {
           </div>
                      <div className="bg-white rounded-lg p-3 mb-4">
              <p className="text-sm text-blue-800">
-               <strong>Claude now executes tools automatically!</strong> No more clicking buttons - just ask for what you need and I'll execute the right tools immediately.
+               <strong>Claude now executes tools for you!</strong> Just ask for what you need - read-only tools run immediately, and anything that changes data waits for your approval first.
              </p>
              <p className="text-xs text-blue-700 mt-2">
-               Try: "Query my database", "Search my files", "Create an issue" - I'll execute the tools and show results instantly!
+               Try: &quot;Query my database&quot;, &quot;Search my files&quot;, &quot;Create an issue&quot; - change when to ask in the session panel under Tool Approval.
              </p>
            </div>
           <div className="space-y-3">
@@ -1007,11 +1477,31 @@ export function ChatInterface() {
 
   return (
     <div className="flex h-screen bg-gray-50">
+      {/* Conversation History Sidebar */}
+      {showHistorySidebar && (
+        <ConversationSidebar
+          conversations={conversations}
+          activeSessionId={sessionId}
+          onSelect={switchSession}
+          onNewConversation={startNewConversation}
+          onRename={handleRenameConversation}
+          onDelete={handleDeleteConversation}
+          onClose={() => setShowHistorySidebar(false)}
+        />
+      )}
+
       {/* Main Chat Area */}
       <div className="flex flex-col flex-1">
         {/* Header */}
         <div className="flex items-center justify-between p-4 border-b border-gray-200 bg-white shadow-sm">
           <div className="flex items-center space-x-3">
+            <button
+              onClick={() => setShowHistorySidebar(!showHistorySidebar)}
+              className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              title="Conversation history"
+            >
+              <History size={18} />
+            </button>
             <div className="w-8 h-8 bg-black rounded-lg flex items-center justify-center">
               <Bot size={18} className="text-white" />
             </div>
@@ -1022,6 +1512,35 @@ export function ChatInterface() {
           </div>
           
           <div className="flex items-center space-x-3">
+            <Link
+              href="/catalog"
+              className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-all duration-200 text-sm font-medium"
+            >
+              <LayoutGrid size={16} />
+              <span>Catalog</span>
+            </Link>
+            <Link
+              href="/tools"
+              className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-all duration-200 text-sm font-medium"
+            >
+              <Wrench size={16} />
+              <span>Tools</span>
+            </Link>
+            <Link
+              href="/vault"
+              className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-all duration-200 text-sm font-medium"
+            >
+              <KeyRound size={16} />
+              <span>Vault</span>
+            </Link>
+            <button
+              onClick={() => setShowImportModal(true)}
+              className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-all duration-200 text-sm font-medium"
+              title="Import an MCP config file"
+            >
+              <Upload size={16} />
+              <span>Import</span>
+            </button>
             <button
               onClick={() => setShowReferenceModal(true)}
               className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-all duration-200 text-sm font-medium"
@@ -1096,14 +1615,29 @@ export function ChatInterface() {
                           {isLoading && message.id === messages[messages.length - 1]?.id ? (
                             <span className="streaming-cursor inline-block w-2 h-5 bg-black ml-1 align-middle animate-pulse"></span>
                           ) : null}
+                          {message.interrupted && (
+                            <div className="mt-3 inline-flex items-center space-x-1.5 text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded-md">
+                              <Square size={10} className="fill-current" />
+                              <span>Response stopped</span>
+                            </div>
+                          )}
                         </div>
                       )}
                       
-                      {message.functionCalls?.map((functionCall, index) => (
-                        <div key={index}>
-                          {show_mcp_recommendations(functionCall)}
-                        </div>
-                      ))}
+                      {message.functionCalls?.map((functionCall, index) => {
+                        const approvalTarget = pendingFunctionCalls.includes(functionCall) ? getToolCallTarget(functionCall) : null;
+                        return (
+                          <div key={index}>
+                            {approvalTarget ? (
+                              <ToolApprovalCard
+                                sessionId={sessionId}
+                                target={approvalTarget}
+                                onDecision={(decision) => approvalResolversRef.current.get(functionCall)?.(decision)}
+                              />
+                            ) : show_mcp_recommendations(functionCall)}
+                          </div>
+                        );
+                      })}
                     </div>
                   </div>
                 </div>
@@ -1116,6 +1650,16 @@ export function ChatInterface() {
         {/* Input Area */}
         <div className="border-t border-gray-200 bg-white p-4 shadow-lg">
           <div className="max-w-4xl mx-auto">
+            {compare.selected.length > 0 && (
+              <div className="flex justify-center mb-3">
+                <ServerCompareTray
+                  servers={compare.selected}
+                  onRemove={compare.remove}
+                  onClear={compare.clear}
+                  onCompare={() => setShowCompareModal(true)}
+                />
+              </div>
+            )}
             <div className="flex space-x-3">
               <input
                 type="text"
@@ -1124,25 +1668,27 @@ export function ChatInterface() {
                 onKeyDown={handleKeyDown}
                 placeholder="Ask me to find MCP servers, paste URLs, or describe your use case..."
                 className="flex-1 px-4 py-3 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent bg-white text-gray-900 placeholder-gray-500 text-sm shadow-sm"
-                disabled={isLoading || isProcessingFunctions}
+                disabled={isBusy}
               />
-              <button
-                onClick={sendMessage}
-                disabled={isLoading || isProcessingFunctions || !input.trim()}
-                className="px-6 py-3 bg-black text-white rounded-xl hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2 shadow-sm min-w-[100px] justify-center"
-              >
-                {isLoading || isProcessingFunctions ? (
-                  <>
-                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                    <span className="text-sm font-medium">{isProcessingFunctions ? 'Processing' : 'Sending'}</span>
-                  </>
-                ) : (
-                  <>
-                    <Send className="w-4 h-4" />
-                    <span className="text-sm font-medium">Send</span>
-                  </>
-                )}
-              </button>
+              {isBusy ? (
+                <button
+                  onClick={stopResponse}
+                  className="px-6 py-3 bg-white text-gray-900 border border-gray-300 rounded-xl hover:bg-gray-100 transition-colors flex items-center space-x-2 shadow-sm min-w-[100px] justify-center"
+                  title={isExecutingTool ? 'Stop tool execution' : 'Stop generating'}
+                >
+                  <Square className="w-4 h-4 fill-current" />
+                  <span className="text-sm font-medium">Stop</span>
+                </button>
+              ) : (
+                <button
+                  onClick={sendMessage}
+                  disabled={!input.trim()}
+                  className="px-6 py-3 bg-black text-white rounded-xl hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2 shadow-sm min-w-[100px] justify-center"
+                >
+                  <Send className="w-4 h-4" />
+                  <span className="text-sm font-medium">Send</span>
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -1163,10 +1709,15 @@ export function ChatInterface() {
                   🔄
                 </button>
                 <button
-                  onClick={() => {
-                    localStorage.removeItem('mcp-chat-session-id');
-                    window.location.reload();
-                  }}
+                  onClick={() => setShowExportModal(true)}
+                  disabled={sessionServers.length === 0}
+                  className="text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Export config for Claude Desktop, VS Code or Cursor"
+                >
+                  <Download size={14} />
+                </button>
+                <button
+                  onClick={startNewConversation}
                   className="text-gray-400 hover:text-gray-600 transition-colors text-sm"
                   title="Start new session"
                 >
@@ -1180,7 +1731,16 @@ export function ChatInterface() {
                 </button>
               </div>
             </div>
-            <p className="text-xs text-gray-600 mt-1">Session ID: {sessionId.slice(-8)}</p>
+            <div className="flex items-center justify-between mt-1">
+              <p className="text-xs text-gray-600">Session ID: {sessionId.slice(-8)}</p>
+              <span
+                className="flex items-center space-x-1 text-xs text-gray-500"
+                title={isServerStatusLive ? 'Server status updates live' : 'Live status unavailable; use refresh'}
+              >
+                <span className={`w-1.5 h-1.5 rounded-full ${isServerStatusLive ? 'bg-green-500' : 'bg-gray-300'}`}></span>
+                <span>{isServerStatusLive ? 'Live' : 'Offline'}</span>
+              </span>
+            </div>
           </div>
           
           <div className="p-4 space-y-3">
@@ -1197,19 +1757,89 @@ export function ChatInterface() {
                 </h3>
                 <div className="space-y-2">
                   {sessionServers.map((server) => (
-                    <div key={server.serverId} className="bg-white rounded-lg border border-gray-200 p-3 shadow-sm">
-                      <div className="flex items-center justify-between">
-                        <div>
-                          <p className="text-sm font-medium text-gray-900">{server.serverName}</p>
-                          <p className="text-xs text-gray-500">Added {new Date(server.installedAt).toLocaleTimeString()}</p>
+                    <SessionServerItem
+                      key={server.serverId}
+                      server={server}
+                      pendingAction={pendingServerActions[server.serverId]}
+                      onAction={handleServerAction}
+                    />
+                  ))}
+                </div>
+              </>
+            )}
+
+            {sessionPresets.length > 0 && (
+              <div className="pt-3 border-t border-gray-200 space-y-2">
+                <h3 className="text-xs font-medium text-gray-700 uppercase tracking-wide">Presets</h3>
+                <div className="space-y-1">
+                  {sessionPresets.map((preset) => (
+                    <div key={preset.id}>
+                      <div className="flex items-center justify-between bg-gray-50 rounded px-2 py-1">
+                        <div className="min-w-0 flex items-center space-x-1.5">
+                          <Bookmark size={12} className="text-gray-400 flex-shrink-0" />
+                          <span className="text-xs text-gray-700 truncate" title={`${preset.server_id} → ${preset.tool_name}`}>{preset.name}</span>
                         </div>
-                        <div className="w-2 h-2 bg-green-500 rounded-full"></div>
+                        <button
+                          onClick={() => runPreset(preset)}
+                          disabled={isBusy}
+                          className="p-1 text-gray-400 hover:text-black hover:bg-gray-200 rounded transition-colors disabled:opacity-50 ml-2"
+                          title={`Run ${preset.tool_name} on ${preset.server_id}`}
+                        >
+                          <Play size={12} />
+                        </button>
                       </div>
+                      {presetLaunchTarget?.preset.id === preset.id && (
+                        <ToolLaunchPanel
+                          key={preset.id}
+                          sessionId={sessionId}
+                          serverId={preset.server_id}
+                          tool={presetLaunchTarget.tool}
+                          initialParameters={preset.parameters}
+                          initialErrors={presetLaunchTarget.errors}
+                          disabled={isBusy}
+                          onCancel={() => setPresetLaunchTarget(null)}
+                          onExecute={(parameters) => {
+                            setPresetLaunchTarget(null);
+                            handleExecuteTool(preset.server_id, preset.tool_name, parameters);
+                          }}
+                        />
+                      )}
                     </div>
                   ))}
                 </div>
-              </>
+              </div>
             )}
+
+            <div className="pt-3 border-t border-gray-200 space-y-2">
+              <h3 className="text-xs font-medium text-gray-700 uppercase tracking-wide">Tool Approval</h3>
+              <select
+                value={approvalPolicy.mode}
+                onChange={(e) => updateApprovalPolicy(policy => ({ ...policy, mode: e.target.value as ToolApprovalMode }))}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent bg-white"
+              >
+                {(Object.keys(APPROVAL_MODE_LABELS) as ToolApprovalMode[]).map((mode) => (
+                  <option key={mode} value={mode}>{APPROVAL_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+              {approvalPolicy.allowlist.length === 0 ? (
+                <p className="text-xs text-gray-400">No tools are auto-approved yet. Tick &quot;Always allow&quot; on an approval to add one.</p>
+              ) : (
+                <div className="space-y-1">
+                  {approvalPolicy.allowlist.map((key) => (
+                    <div key={key} className="flex items-center justify-between bg-gray-50 rounded px-2 py-1">
+                      <code className="text-xs font-mono text-gray-700 truncate">{key}</code>
+                      <button
+                        onClick={() => updateApprovalPolicy(policy => ({ ...policy, allowlist: policy.allowlist.filter(k => k !== key) }))}
+                        className="text-gray-400 hover:text-gray-600 transition-colors text-sm leading-none ml-2"
+                        title="Remove from allowlist"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
           </div>
         </div>
       )}
@@ -1221,6 +1851,29 @@ export function ChatInterface() {
         </div>
       )}
 
+      {/* Server Compare Modal */}
+      {showCompareModal && compare.canCompare && (
+        <ServerCompareModal
+          servers={compare.selected}
+          sessionId={sessionId}
+          isInSession={(serverId) => sessionServers.some(s => s.serverId === serverId)}
+          onAdd={(server) => handleAddServer(server.id, server.name)}
+          onClose={() => setShowCompareModal(false)}
+        />
+      )}
+
+      {/* Server Detail Drawer */}
+      {detailServer && (
+        <ServerDetailDrawer
+          server={detailServer}
+          sessionId={sessionId}
+          isInSession={sessionServers.some(s => s.serverId === detailServer.id)}
+          onAdd={(server) => handleAddServer(server.id, server.name)}
+          onRemove={(serverId) => handleServerAction(serverId, 'remove')}
+          onClose={() => setDetailServer(null)}
+        />
+      )}
+
       {/* Credential Modal */}
       {showCredentialModal && credentialRequirements && (
         <McpCredentialModal
@@ -1232,6 +1885,22 @@ export function ChatInterface() {
         />
       )}
 
+      {/* Config Import Modal */}
+      <ConfigImportModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        sessionId={sessionId}
+        existingServerIds={sessionServers.map(s => s.serverId)}
+        onImported={handleServersImported}
+      />
+
+      {/* Config Export Modal */}
+      <ConfigExportModal
+        isOpen={showExportModal}
+        onClose={() => setShowExportModal(false)}
+        sessionId={sessionId}
+      />
+
       {/* Reference Modal */}
       <SearchReferenceModal
         isOpen={showReferenceModal}
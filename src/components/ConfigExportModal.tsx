@@ -0,0 +1,160 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Download, Copy, Check, Loader2, AlertCircle, FileJson } from 'lucide-react';
+import * as api from '@/lib/api';
+import { EXPORT_TARGETS, ExportTarget, buildClientConfig } from '@/lib/mcpConfig';
+import { copyToClipboard, downloadFile } from '@/lib/download';
+import { ServerLaunchConfig } from '@/types/api';
+import Modal from './Modal';
+
+interface ConfigExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sessionId: string;
+}
+
+export default function ConfigExportModal({ isOpen, onClose, sessionId }: ConfigExportModalProps) {
+  const [target, setTarget] = useState<ExportTarget>('claude-desktop');
+  const [includeValues, setIncludeValues] = useState(false);
+  const [servers, setServers] = useState<ServerLaunchConfig[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Secrets are only fetched when the user opts in to real values
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    api.getServerConfigs(sessionId, includeValues)
+      .then((data) => {
+        if (!cancelled) setServers(data.servers || []);
+      })
+      .catch((loadError) => {
+        if (cancelled) return;
+        setServers([]);
+        setError(loadError instanceof Error ? loadError.message : String(loadError));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, sessionId, includeValues]);
+
+  const configText = useMemo(
+    () => JSON.stringify(buildClientConfig(target, servers, { includeValues }), null, 2),
+    [target, servers, includeValues]
+  );
+
+  if (!isOpen) return null;
+
+  const handleCopy = async () => {
+    if (await copyToClipboard(configText)) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      labelledBy="config-export-title"
+      className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] flex flex-col"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between p-5 border-b border-gray-100 flex-shrink-0">
+        <div className="flex items-center space-x-3">
+          <FileJson size={18} className="text-gray-600" />
+          <div>
+            <h2 id="config-export-title" className="text-sm font-semibold text-black">Export Session Config</h2>
+            <p className="text-xs text-gray-600">Use this session&apos;s servers in another MCP client</p>
+          </div>
+        </div>
+        <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-lg transition-colors" aria-label="Close">
+          <X size={18} className="text-gray-400" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-5 space-y-4">
+        <div className="flex bg-gray-100 rounded-lg p-1">
+          {(Object.keys(EXPORT_TARGETS) as ExportTarget[]).map((key) => (
+            <button
+              key={key}
+              onClick={() => setTarget(key)}
+              className={`flex-1 px-3 py-1.5 text-xs font-medium rounded-md transition-colors ${
+                target === key ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-900'
+              }`}
+            >
+              {EXPORT_TARGETS[key].label}
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-start space-x-2 text-xs text-gray-700">
+          <input
+            type="checkbox"
+            checked={includeValues}
+            onChange={(e) => setIncludeValues(e.target.checked)}
+            className="mt-0.5 rounded border-gray-300"
+          />
+          <span>
+            Include real environment values
+            <span className="block text-gray-500">
+              {includeValues
+                ? 'The exported file will contain your credentials in plain text.'
+                : 'Every environment variable is left as a placeholder for you to fill in.'}
+            </span>
+          </span>
+        </label>
+
+        <div>
+          <p className="text-xs text-gray-600 mb-2">
+            Save as <code className="bg-gray-100 px-1.5 py-0.5 rounded font-mono">{EXPORT_TARGETS[target].location}</code>
+          </p>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8 text-xs text-gray-600">
+              <Loader2 size={16} className="animate-spin text-gray-400" />
+              <span className="ml-2">Loading server configs...</span>
+            </div>
+          ) : error ? (
+            <div className="flex items-center space-x-1 text-red-600 text-xs">
+              <AlertCircle size={12} />
+              <span>Could not load server configs: {error}</span>
+            </div>
+          ) : servers.length === 0 ? (
+            <p className="text-xs text-gray-500 py-4 text-center">There are no servers in this session to export.</p>
+          ) : (
+            <pre className="text-xs bg-gray-50 p-3 rounded-lg border border-gray-200 overflow-x-auto text-gray-800 max-h-80">
+              {configText}
+            </pre>
+          )}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <div className="flex space-x-3 p-5 border-t border-gray-100 flex-shrink-0">
+        <button
+          onClick={handleCopy}
+          disabled={isLoading || servers.length === 0}
+          className="flex-1 px-4 py-2.5 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-50 flex items-center justify-center space-x-2"
+        >
+          {copied ? <Check size={14} /> : <Copy size={14} />}
+          <span>{copied ? 'Copied' : 'Copy'}</span>
+        </button>
+        <button
+          onClick={() => downloadFile(EXPORT_TARGETS[target].fileName, configText, 'application/json')}
+          disabled={isLoading || servers.length === 0}
+          className="flex-1 px-4 py-2.5 text-xs font-medium bg-black text-white hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50 flex items-center justify-center space-x-2"
+        >
+          <Download size={14} />
+          <span>Download</span>
+        </button>
+      </div>
+    </Modal>
+  );
+}
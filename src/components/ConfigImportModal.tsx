@@ -0,0 +1,375 @@
+import React, { useState } from 'react';
+import { X, Upload, FileJson, Loader2, Check, AlertCircle, ChevronLeft } from 'lucide-react';
+import * as api from '@/lib/api';
+import {
+  ImportedServerConfig,
+  McpConfigFormat,
+  ParsedMcpConfig,
+  envVarToCredentialField,
+  isPlaceholderValue,
+  parseMcpConfig,
+} from '@/lib/mcpConfig';
+import { ImportServerResult } from '@/types/api';
+import Modal from './Modal';
+
+interface ConfigImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sessionId: string;
+  existingServerIds: string[];
+  onImported: (results: ImportServerResult[]) => void;
+}
+
+const FORMAT_LABELS: Record<McpConfigFormat, string> = {
+  'claude-desktop': 'Claude Desktop format',
+  'multi-server': 'Multi-server configuration',
+  'simplified': 'Simplified format',
+};
+
+// Real values from the file are kept; placeholders like "your-key" start empty
+const initialEnvValues = (servers: ImportedServerConfig[]) => {
+  const values: Record<string, Record<string, string>> = {};
+  servers.forEach((server) => {
+    values[server.serverId] = {};
+    Object.keys(server.env).forEach((name) => {
+      values[server.serverId][name] = isPlaceholderValue(server.env[name]) ? '' : server.env[name];
+    });
+  });
+  return values;
+};
+
+export default function ConfigImportModal({
+  isOpen,
+  onClose,
+  sessionId,
+  existingServerIds,
+  onImported,
+}: ConfigImportModalProps) {
+  const [configText, setConfigText] = useState('');
+  const [isDragging, setIsDragging] = useState(false);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedMcpConfig | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [envValues, setEnvValues] = useState<Record<string, Record<string, string>>>({});
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [results, setResults] = useState<ImportServerResult[] | null>(null);
+
+  if (!isOpen) return null;
+
+  const reset = () => {
+    setConfigText('');
+    setParseError(null);
+    setParsed(null);
+    setSelected(new Set());
+    setEnvValues({});
+    setImportError(null);
+    setResults(null);
+  };
+
+  const handleClose = () => {
+    if (isImporting) return;
+    reset();
+    onClose();
+  };
+
+  const preview = (text: string) => {
+    try {
+      const config = parseMcpConfig(text);
+      setParsed(config);
+      setParseError(null);
+      setEnvValues(initialEnvValues(config.servers));
+      setSelected(new Set(config.servers.filter(s => !existingServerIds.includes(s.serverId)).map(s => s.serverId)));
+    } catch (error) {
+      setParsed(null);
+      setParseError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const loadFile = async (file: File) => {
+    const text = await file.text();
+    setConfigText(text);
+    preview(text);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) {
+      loadFile(file);
+    } else {
+      const text = e.dataTransfer.getData('text/plain');
+      if (text) {
+        setConfigText(text);
+        preview(text);
+      }
+    }
+  };
+
+  const toggleServer = (serverId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(serverId)) {
+        next.delete(serverId);
+      } else {
+        next.add(serverId);
+      }
+      return next;
+    });
+  };
+
+  const setEnvValue = (serverId: string, name: string, value: string) => {
+    setEnvValues(prev => ({ ...prev, [serverId]: { ...prev[serverId], [name]: value } }));
+  };
+
+  const handleImport = async () => {
+    if (!parsed) return;
+    const servers = parsed.servers.filter(server => selected.has(server.serverId));
+    if (servers.length === 0) return;
+
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      const response = await api.importServers(sessionId, {
+        servers: servers.map((server) => {
+          const env: Record<string, string> = {};
+          Object.keys(server.env).forEach((name) => {
+            const value = envValues[server.serverId]?.[name]?.trim();
+            if (value) env[name] = value;
+          });
+          return {
+            server_id: server.serverId,
+            server_name: server.key,
+            command: server.command,
+            args: server.args,
+            env,
+            description: server.description,
+          };
+        }),
+      });
+      setResults(response.results || []);
+      onImported(response.results || []);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const missingEnvCount = (server: ImportedServerConfig) =>
+    Object.keys(server.env).filter(name => !envValues[server.serverId]?.[name]?.trim()).length;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      labelledBy="config-import-title"
+      closeOnEscape={!isImporting}
+      className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] flex flex-col"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between p-5 border-b border-gray-100 flex-shrink-0">
+        <div className="flex items-center space-x-3">
+          <FileJson size={18} className="text-gray-600" />
+          <div>
+            <h2 id="config-import-title" className="text-sm font-semibold text-black">Import MCP Config</h2>
+            <p className="text-xs text-gray-600">
+              {parsed ? FORMAT_LABELS[parsed.format] : 'Claude Desktop, multi-server or simplified JSON'}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={handleClose}
+          className="p-1 hover:bg-gray-100 rounded-lg transition-colors"
+          disabled={isImporting}
+          aria-label="Close"
+        >
+          <X size={18} className="text-gray-400" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-5 space-y-4">
+        {results ? (
+          <div className="space-y-2">
+            {results.map((result) => (
+              <div
+                key={result.server_id}
+                className={`flex items-start space-x-2 p-3 rounded-lg border text-xs ${
+                  result.success ? 'border-green-200 bg-green-50 text-green-800' : 'border-red-200 bg-red-50 text-red-800'
+                }`}
+              >
+                {result.success ? <Check size={14} className="mt-0.5" /> : <AlertCircle size={14} className="mt-0.5" />}
+                <div>
+                  <p className="font-medium">{result.server_id}</p>
+                  {result.message && <p className="mt-0.5">{result.message}</p>}
+                  {result.success && result.needs_credentials && (
+                    <p className="mt-0.5">Still needs credentials - add them from the session panel.</p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : !parsed ? (
+          <>
+            <div
+              onDragOver={(e) => {
+                e.preventDefault();
+                setIsDragging(true);
+              }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+              className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
+                isDragging ? 'border-black bg-gray-50' : 'border-gray-300'
+              }`}
+            >
+              <Upload size={24} className="text-gray-400 mx-auto mb-2" />
+              <p className="text-xs text-gray-600">Drop a config file here, or</p>
+              <label className="inline-block mt-2 px-3 py-1.5 text-xs font-medium bg-gray-100 hover:bg-gray-200 rounded-lg cursor-pointer transition-colors">
+                Choose file
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => e.target.files?.[0] && loadFile(e.target.files[0])}
+                />
+              </label>
+            </div>
+            <textarea
+              value={configText}
+              onChange={(e) => setConfigText(e.target.value)}
+              placeholder={'Or paste JSON, e.g. { "mcpServers": { ... } }'}
+              rows={10}
+              className="w-full px-3 py-2 text-xs font-mono border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
+            />
+            {parseError && (
+              <div className="flex items-center space-x-1 text-red-600 text-xs">
+                <AlertCircle size={12} />
+                <span>{parseError}</span>
+              </div>
+            )}
+          </>
+        ) : (
+          <>
+            {parsed.errors.length > 0 && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-xs text-yellow-800 space-y-1">
+                <p className="font-medium">Some entries were skipped:</p>
+                {parsed.errors.map((error, index) => <p key={index}>• {error}</p>)}
+              </div>
+            )}
+            {parsed.servers.map((server) => {
+              const alreadyAdded = existingServerIds.includes(server.serverId);
+              const envNames = Object.keys(server.env);
+              const missing = missingEnvCount(server);
+              return (
+                <div key={server.serverId} className="border border-gray-200 rounded-lg p-4 space-y-3">
+                  <label className="flex items-start space-x-3">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(server.serverId)}
+                      onChange={() => toggleServer(server.serverId)}
+                      className="mt-0.5 rounded border-gray-300"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center space-x-2">
+                        <span className="text-sm font-semibold text-gray-900">{server.key}</span>
+                        {alreadyAdded && (
+                          <span className="text-xs bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded-md">Already in session</span>
+                        )}
+                      </div>
+                      {server.description && <p className="text-xs text-gray-600 mt-0.5">{server.description}</p>}
+                      <code className="block text-xs bg-gray-50 px-2 py-1.5 rounded border border-gray-200 font-mono mt-2 break-all">
+                        {[server.command, ...server.args].join(' ')}
+                      </code>
+                    </div>
+                  </label>
+
+                  {envNames.length > 0 && selected.has(server.serverId) && (
+                    <div className="pl-7 space-y-2">
+                      <p className="text-xs font-medium text-gray-700">
+                        Environment variables ({envNames.length} detected{missing > 0 ? `, ${missing} to fill in` : ''})
+                      </p>
+                      {envNames.map((name) => {
+                        const field = envVarToCredentialField(name, server.env[name]);
+                        return (
+                          <div key={name}>
+                            <label className="block text-xs text-gray-600 mb-1">
+                              {field.label} <code className="text-gray-400">{name}</code>
+                            </label>
+                            <input
+                              type={field.type}
+                              value={envValues[server.serverId]?.[name] || ''}
+                              onChange={(e) => setEnvValue(server.serverId, name, e.target.value)}
+                              placeholder={field.placeholder}
+                              className="w-full px-3 py-2 text-xs border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
+                            />
+                          </div>
+                        );
+                      })}
+                      {missing > 0 && (
+                        <p className="text-xs text-gray-500">Empty variables can be provided later as credentials.</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+            {importError && (
+              <div className="flex items-center space-x-1 text-red-600 text-xs">
+                <AlertCircle size={12} />
+                <span>{importError}</span>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Footer */}
+      <div className="flex space-x-3 p-5 border-t border-gray-100 flex-shrink-0">
+        {results ? (
+          <button
+            onClick={handleClose}
+            className="flex-1 px-4 py-2.5 text-xs font-medium bg-black text-white hover:bg-gray-800 rounded-lg transition-colors"
+          >
+            Done
+          </button>
+        ) : parsed ? (
+          <>
+            <button
+              onClick={() => setParsed(null)}
+              className="px-4 py-2.5 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-50 flex items-center space-x-1"
+              disabled={isImporting}
+            >
+              <ChevronLeft size={14} />
+              <span>Back</span>
+            </button>
+            <button
+              onClick={handleImport}
+              className="flex-1 px-4 py-2.5 text-xs font-medium bg-black text-white hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50 flex items-center justify-center space-x-2"
+              disabled={isImporting || selected.size === 0}
+            >
+              {isImporting ? <Loader2 size={14} className="animate-spin" /> : <Upload size={14} />}
+              <span>{isImporting ? 'Adding servers...' : `Add ${selected.size} server${selected.size === 1 ? '' : 's'} to session`}</span>
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              onClick={handleClose}
+              className="flex-1 px-4 py-2.5 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => preview(configText)}
+              className="flex-1 px-4 py-2.5 text-xs font-medium bg-black text-white hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50"
+              disabled={!configText.trim()}
+            >
+              Preview servers
+            </button>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { MessageSquare, Plus, Pencil, Trash2, Check, X, Server } from 'lucide-react';
+import { StoredConversation } from '@/types';
+
+interface ConversationSidebarProps {
+  conversations: StoredConversation[];
+  activeSessionId: string;
+  onSelect: (sessionId: string) => void;
+  onNewConversation: () => void;
+  onRename: (sessionId: string, title: string) => Promise<void>;
+  onDelete: (sessionId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const formatTimestamp = (value: Date) => {
+  const date = new Date(value);
+  const now = new Date();
+  if (date.toDateString() === now.toDateString()) {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+  return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+export default function ConversationSidebar({
+  conversations,
+  activeSessionId,
+  onSelect,
+  onNewConversation,
+  onRename,
+  onDelete,
+  onClose,
+}: ConversationSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startEditing = (conversation: StoredConversation) => {
+    setEditingId(conversation.session_id);
+    setDraftTitle(conversation.title);
+  };
+
+  const commitRename = async () => {
+    if (!editingId) return;
+    const title = draftTitle.trim();
+    if (title) {
+      await onRename(editingId, title);
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = async (conversation: StoredConversation) => {
+    if (!window.confirm(`Delete "${conversation.title}"? This cannot be undone.`)) return;
+    await onDelete(conversation.session_id);
+  };
+
+  return (
+    <div className="w-72 border-r border-gray-200 bg-white flex flex-col">
+      <div className="p-4 border-b border-gray-200 bg-gray-50">
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-gray-900">Conversations</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors text-xl leading-none"
+          >
+            ×
+          </button>
+        </div>
+        <button
+          onClick={onNewConversation}
+          className="mt-3 w-full flex items-center justify-center space-x-2 px-3 py-2 bg-black text-white text-xs font-medium rounded-lg hover:bg-gray-800 transition-colors"
+        >
+          <Plus size={14} />
+          <span>New conversation</span>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {conversations.length === 0 ? (
+          <div className="text-center py-8">
+            <MessageSquare size={28} className="text-gray-300 mx-auto mb-3" />
+            <p className="text-sm text-gray-500 font-medium">No saved conversations</p>
+            <p className="text-xs text-gray-400 mt-1">Your chats are saved in this browser</p>
+          </div>
+        ) : (
+          conversations.map((conversation) => {
+            const isActive = conversation.session_id === activeSessionId;
+            const isEditing = editingId === conversation.session_id;
+
+            return (
+              <div
+                key={conversation.session_id}
+                onClick={() => !isEditing && onSelect(conversation.session_id)}
+                className={`group rounded-lg p-3 cursor-pointer transition-colors ${
+                  isActive ? 'bg-gray-100 border border-gray-300' : 'hover:bg-gray-50 border border-transparent'
+                }`}
+              >
+                {isEditing ? (
+                  <div className="flex items-center space-x-1" onClick={(e) => e.stopPropagation()}>
+                    <input
+                      autoFocus
+                      value={draftTitle}
+                      onChange={(e) => setDraftTitle(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-black"
+                    />
+                    <button onClick={commitRename} className="p-1 text-gray-500 hover:text-black" title="Save title">
+                      <Check size={12} />
+                    </button>
+                    <button onClick={() => setEditingId(null)} className="p-1 text-gray-500 hover:text-black" title="Cancel">
+                      <X size={12} />
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex items-start justify-between">
+                    <p className="text-sm font-medium text-gray-900 truncate pr-2">{conversation.title}</p>
+                    <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          startEditing(conversation);
+                        }}
+                        className="p-1 text-gray-400 hover:text-black"
+                        title="Rename"
+                      >
+                        <Pencil size={12} />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(conversation);
+                        }}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="Delete"
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                  </div>
+                )}
+                {conversation.content && !isEditing && (
+                  <p className="text-xs text-gray-500 truncate mt-1">{conversation.content}</p>
+                )}
+                <div className="flex items-center space-x-3 mt-1.5 text-xs text-gray-400">
+                  <span>{formatTimestamp(conversation.updated_at)}</span>
+                  <span className="flex items-center space-x-1">
+                    <Server size={10} />
+                    <span>{conversation.server_count}</span>
+                  </span>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { KeyRound, Lock, Loader2, AlertCircle } from 'lucide-react';
+import * as credentialVault from '@/lib/credentialVault';
+import { CredentialField, CredentialProfile } from '@/types';
+
+interface CredentialProfilePickerProps {
+  serverId: string;
+  fields: CredentialField[];
+  disabled?: boolean;
+  onFill: (values: Record<string, string>, profile: CredentialProfile) => void;
+}
+
+export default function CredentialProfilePicker({ serverId, fields, disabled = false, onFill }: CredentialProfilePickerProps) {
+  const [profiles, setProfiles] = useState<CredentialProfile[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    credentialVault.listProfiles()
+      .then((all) => {
+        if (cancelled) return;
+        const matching = credentialVault.findMatchingProfiles(all, serverId, fields);
+        setProfiles(matching);
+        setSelectedId(matching[0]?.id || '');
+      })
+      .catch(loadError => console.error('Failed to load credential profiles:', loadError));
+    return () => {
+      cancelled = true;
+    };
+  }, [serverId, fields]);
+
+  if (profiles.length === 0) return null;
+
+  const selected = profiles.find(profile => profile.id === selectedId);
+
+  const handleFill = async () => {
+    if (!selected) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      const values = await credentialVault.unlockProfile(selected, passphrase);
+      onFill(values, selected);
+      setPassphrase('');
+    } catch (unlockError) {
+      setError(unlockError instanceof Error ? unlockError.message : String(unlockError));
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center space-x-1.5 text-xs font-medium text-gray-700">
+          <KeyRound size={12} />
+          <span>Fill from a saved profile</span>
+        </span>
+        <Link href="/vault" className="text-xs text-gray-500 hover:text-black underline">
+          Manage
+        </Link>
+      </div>
+      <div className="flex space-x-2">
+        <select
+          value={selectedId}
+          onChange={(e) => {
+            setSelectedId(e.target.value);
+            setPassphrase('');
+            setError(null);
+          }}
+          disabled={disabled || isUnlocking}
+          aria-label="Saved profile"
+          className="flex-1 min-w-0 px-2 py-1.5 text-xs border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-black"
+        >
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}{profile.encrypted ? ' 🔒' : ''}
+            </option>
+          ))}
+        </select>
+        {selected?.encrypted && (
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleFill();
+              }
+            }}
+            placeholder="Passphrase"
+            aria-label="Profile passphrase"
+            autoComplete="off"
+            disabled={disabled || isUnlocking}
+            className="w-28 px-2 py-1.5 text-xs border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black"
+          />
+        )}
+        <button
+          type="button"
+          onClick={handleFill}
+          disabled={disabled || isUnlocking || !selected}
+          className="px-3 py-1.5 text-xs font-medium bg-black text-white rounded-lg hover:bg-gray-800 disabled:opacity-50 flex items-center space-x-1"
+        >
+          {isUnlocking ? <Loader2 size={12} className="animate-spin" /> : selected?.encrypted ? <Lock size={12} /> : null}
+          <span>Fill</span>
+        </button>
+      </div>
+      {error && (
+        <div role="alert" className="flex items-center space-x-1 text-red-600 text-xs">
+          <AlertCircle size={12} />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
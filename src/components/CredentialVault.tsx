@@ -0,0 +1,263 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { KeyRound, Lock, Unlock, Loader2, AlertCircle, MessageSquare, RefreshCw, Trash2, Eye, EyeOff } from 'lucide-react';
+import * as credentialVault from '@/lib/credentialVault';
+import { CredentialProfile } from '@/types';
+
+interface ProfileEditorProps {
+  profile: CredentialProfile;
+  onSaved: (profile: CredentialProfile) => void;
+  onCancel: () => void;
+}
+
+// Rotating starts from the current values, so encrypted profiles are unlocked first
+function ProfileEditor({ profile, onSaved, onCancel }: ProfileEditorProps) {
+  const [values, setValues] = useState<Record<string, string> | null>(profile.encrypted ? null : { ...profile.values });
+  const [name, setName] = useState(profile.name);
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [encrypt, setEncrypt] = useState(!!profile.encrypted);
+  const [showValues, setShowValues] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await action();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : String(actionError));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleUnlock = () => run(async () => {
+    setValues(await credentialVault.unlockProfile(profile, currentPassphrase));
+    setPassphrase(currentPassphrase);
+  });
+
+  const handleSave = () => run(async () => {
+    if (!values) return;
+    if (encrypt && !passphrase) throw new Error('Enter a passphrase to keep this profile encrypted');
+    onSaved(await credentialVault.saveProfile({
+      id: profile.id,
+      name: name.trim() || profile.name,
+      server_id: profile.server_id,
+      values,
+      passphrase: encrypt ? passphrase : undefined,
+    }));
+  });
+
+  const inputClassName = 'w-full px-3 py-2 text-xs border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent';
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-100 space-y-3">
+      {!values ? (
+        <div className="flex space-x-2">
+          <input
+            type="password"
+            value={currentPassphrase}
+            onChange={(e) => setCurrentPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+            placeholder="Current passphrase"
+            autoComplete="off"
+            className={inputClassName}
+          />
+          <button
+            onClick={handleUnlock}
+            disabled={isWorking || !currentPassphrase}
+            className="px-3 py-2 text-xs font-medium bg-black text-white rounded-lg hover:bg-gray-800 disabled:opacity-50 flex items-center space-x-1"
+          >
+            {isWorking ? <Loader2 size={12} className="animate-spin" /> : <Unlock size={12} />}
+            <span>Unlock</span>
+          </button>
+        </div>
+      ) : (
+        <>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Name</label>
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} />
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-gray-700">Values</span>
+              <button onClick={() => setShowValues(!showValues)} className="text-xs text-gray-500 hover:text-black flex items-center space-x-1">
+                {showValues ? <EyeOff size={12} /> : <Eye size={12} />}
+                <span>{showValues ? 'Hide' : 'Show'}</span>
+              </button>
+            </div>
+            {profile.field_names.map((fieldName) => (
+              <div key={fieldName}>
+                <label className="block text-xs font-mono text-gray-600 mb-1">{fieldName}</label>
+                <input
+                  type={showValues ? 'text' : 'password'}
+                  value={values[fieldName] || ''}
+                  onChange={(e) => setValues(prev => ({ ...prev, [fieldName]: e.target.value }))}
+                  autoComplete="off"
+                  className={inputClassName}
+                />
+              </div>
+            ))}
+          </div>
+          <label className="flex items-center space-x-2 text-xs text-gray-700">
+            <input type="checkbox" checked={encrypt} onChange={(e) => setEncrypt(e.target.checked)} className="rounded border-gray-300" />
+            <span>Encrypt with a passphrase</span>
+          </label>
+          {encrypt && (
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Passphrase"
+              autoComplete="new-password"
+              className={inputClassName}
+            />
+          )}
+        </>
+      )}
+
+      {error && (
+        <div className="flex items-center space-x-1 text-red-600 text-xs">
+          <AlertCircle size={12} />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <button onClick={onCancel} className="px-3 py-1.5 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg">
+          Cancel
+        </button>
+        {values && (
+          <button
+            onClick={handleSave}
+            disabled={isWorking}
+            className="px-3 py-1.5 text-xs font-medium bg-black text-white hover:bg-gray-800 rounded-lg disabled:opacity-50"
+          >
+            Save
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function CredentialVault() {
+  const [profiles, setProfiles] = useState<CredentialProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    credentialVault.listProfiles()
+      .then(setProfiles)
+      .catch(loadError => setError(loadError instanceof Error ? loadError.message : String(loadError)))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleDelete = async (profile: CredentialProfile) => {
+    if (!window.confirm(`Delete the profile "${profile.name}"? Sessions that already use these credentials keep them.`)) return;
+    try {
+      await credentialVault.deleteProfile(profile.id);
+      setProfiles(prev => prev.filter(p => p.id !== profile.id));
+    } catch (deleteError) {
+      console.error('Failed to delete credential profile:', deleteError);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 shadow-sm">
+        <div className="max-w-3xl mx-auto px-6 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-lg font-semibold text-gray-900">Credential Vault</h1>
+            <p className="text-xs text-gray-600">Saved credential profiles, stored only in this browser</p>
+          </div>
+          <Link
+            href="/"
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-all duration-200 text-sm font-medium"
+          >
+            <MessageSquare size={16} />
+            <span>Back to chat</span>
+          </Link>
+        </div>
+      </div>
+
+      <div className="max-w-3xl mx-auto px-6 py-6 space-y-3">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 size={24} className="animate-spin text-gray-400" />
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+            Could not open the vault: {error}
+          </div>
+        ) : profiles.length === 0 ? (
+          <div className="text-center py-16">
+            <KeyRound size={32} className="text-gray-300 mx-auto mb-3" />
+            <p className="text-sm text-gray-500 font-medium">No saved profiles yet</p>
+            <p className="text-xs text-gray-400 mt-1">Tick &ldquo;Save as a profile&rdquo; when you enter credentials for a server.</p>
+          </div>
+        ) : (
+          profiles.map((profile) => (
+            <div key={profile.id} className="bg-white border border-gray-200 rounded-xl p-4 shadow-sm">
+              <div className="flex items-start justify-between">
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <h3 className="text-sm font-semibold text-black truncate">{profile.name}</h3>
+                    {profile.encrypted && (
+                      <span className="flex items-center space-x-1 text-xs bg-gray-100 text-gray-700 px-1.5 py-0.5 rounded-md">
+                        <Lock size={10} />
+                        <span>Encrypted</span>
+                      </span>
+                    )}
+                  </div>
+                  {profile.server_id && <p className="text-xs text-gray-500 font-mono mt-0.5">{profile.server_id}</p>}
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {profile.field_names.map(fieldName => (
+                      <code key={fieldName} className="text-xs bg-gray-50 border border-gray-200 px-1.5 py-0.5 rounded font-mono text-gray-700">
+                        {fieldName}
+                      </code>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-400 mt-2">Updated {new Date(profile.updated_at).toLocaleString()}</p>
+                </div>
+                <div className="flex items-center space-x-1 flex-shrink-0">
+                  <button
+                    onClick={() => setEditingId(editingId === profile.id ? null : profile.id)}
+                    className="p-1.5 text-gray-400 hover:text-black hover:bg-gray-100 rounded-lg"
+                    title="Rotate values"
+                  >
+                    <RefreshCw size={14} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(profile)}
+                    className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg"
+                    title="Delete profile"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+
+              {editingId === profile.id && (
+                <ProfileEditor
+                  profile={profile}
+                  onSaved={(saved) => {
+                    setProfiles(prev => prev.map(p => (p.id === saved.id ? saved : p)));
+                    setEditingId(null);
+                  }}
+                  onCancel={() => setEditingId(null)}
+                />
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import React, { useMemo } from 'react';
+import { X, GitCompare } from 'lucide-react';
+import { diffLines } from '@/lib/textDiff';
+import { ToolExecutionRecord } from '@/types';
+import Modal from './Modal';
+
+interface ExecutionDiffModalProps {
+  // Older run first, so additions read as what changed since
+  runs: [ToolExecutionRecord, ToolExecutionRecord];
+  onClose: () => void;
+}
+
+const LINE_STYLES = {
+  same: 'text-gray-700',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-700',
+};
+
+const LINE_PREFIX = { same: ' ', added: '+', removed: '-' };
+
+// Text blocks are diffed by their contents (pretty-printed when they hold JSON), not as one escaped string
+const blockText = (block: Record<string, any>) => {
+  if (block.type !== 'text' || typeof block.text !== 'string') return JSON.stringify(block, null, 2);
+  try {
+    return JSON.stringify(JSON.parse(block.text), null, 2);
+  } catch {
+    return block.text;
+  }
+};
+
+const runOutput = (run: ToolExecutionRecord) => {
+  if (!run.success) return JSON.stringify({ error: run.error }, null, 2);
+  const content = Array.isArray(run.result) ? run.result : run.result?.content;
+  const isContent = Array.isArray(content) && content.length > 0
+    && content.every(block => block !== null && typeof block === 'object' && typeof block.type === 'string');
+  return isContent ? content.map(blockText).join('\n\n') : JSON.stringify(run.result ?? null, null, 2);
+};
+
+function DiffSection({ title, before, after }: { title: string; before: string; after: string }) {
+  const lines = useMemo(() => diffLines(before, after), [before, after]);
+  const changed = lines ? lines.filter(line => line.type !== 'same').length : 0;
+
+  return (
+    <section>
+      <h3 className="text-xs font-medium text-gray-700 uppercase tracking-wide mb-2">
+        {title}
+        <span className="ml-2 normal-case font-normal text-gray-500">
+          {lines === null ? 'too large to compare' : changed === 0 ? 'identical' : `${changed} line${changed === 1 ? '' : 's'} differ`}
+        </span>
+      </h3>
+      {lines === null ? (
+        <div className="grid grid-cols-2 gap-2">
+          {[before, after].map((text, index) => (
+            <pre key={index} className="text-xs bg-gray-50 p-3 rounded-lg border border-gray-200 overflow-auto max-h-80">{text}</pre>
+          ))}
+        </div>
+      ) : (
+        <pre className="text-xs font-mono bg-white rounded-lg border border-gray-200 overflow-auto max-h-96 py-2">
+          {lines.map((line, index) => (
+            <div key={index} className={`px-3 ${LINE_STYLES[line.type]}`}>
+              {LINE_PREFIX[line.type]} {line.text}
+            </div>
+          ))}
+        </pre>
+      )}
+    </section>
+  );
+}
+
+export default function ExecutionDiffModal({ runs, onClose }: ExecutionDiffModalProps) {
+  const [before, after] = runs;
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      labelledBy="execution-diff-title"
+      className="bg-white rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] flex flex-col"
+    >
+      <div className="flex items-center justify-between p-5 border-b border-gray-100 flex-shrink-0">
+        <div className="flex items-center space-x-3">
+          <GitCompare size={18} className="text-gray-600" />
+          <div>
+            <h2 id="execution-diff-title" className="text-sm font-semibold text-black">Compare Runs</h2>
+            <p className="text-xs text-gray-600">
+              <span className="text-red-700">− {before.tool_name} at {new Date(before.executed_at).toLocaleString()}</span>
+              {'  '}
+              <span className="text-green-700">+ {after.tool_name} at {new Date(after.executed_at).toLocaleString()}</span>
+            </p>
+          </div>
+        </div>
+        <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-lg transition-colors" aria-label="Close">
+          <X size={18} className="text-gray-400" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-5 space-y-6">
+        <DiffSection
+          title="Parameters"
+          before={JSON.stringify(before.parameters, null, 2)}
+          after={JSON.stringify(after.parameters, null, 2)}
+        />
+        <DiffSection title="Result" before={runOutput(before)} after={runOutput(after)} />
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,269 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  History, CheckCircle, XCircle, RotateCw, Pencil, Trash2, Loader2, ChevronDown, ChevronRight, GitCompare, Search
+} from 'lucide-react';
+import * as api from '@/lib/api';
+import * as executionLog from '@/lib/executionLog';
+import { runTool } from '@/lib/toolRunner';
+import { buildToolLink } from '@/lib/toolLinks';
+import { ToolExecutionRecord } from '@/types';
+import ToolResultViewer from './ToolResultViewer';
+import ExecutionDiffModal from './ExecutionDiffModal';
+
+interface ExecutionHistoryProps {
+  sessionId: string;
+}
+
+type StatusFilter = 'all' | 'success' | 'failed';
+
+export default function ExecutionHistory({ sessionId }: ExecutionHistoryProps) {
+  const router = useRouter();
+  const [records, setRecords] = useState<ToolExecutionRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [serverFilter, setServerFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [query, setQuery] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [rerunningIds, setRerunningIds] = useState<string[]>([]);
+  const [diffIds, setDiffIds] = useState<string[]>([]);
+  const [showDiff, setShowDiff] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const load = () => {
+      executionLog.listExecutions(sessionId)
+        .then(setRecords)
+        .catch(error => console.error('Failed to load execution history:', error))
+        .finally(() => setIsLoading(false));
+    };
+    load();
+    return executionLog.subscribeToExecutionLog((changedSessionId) => {
+      if (changedSessionId === sessionId) load();
+    });
+  }, [sessionId]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  const servers = Array.from(new Set(records.map(record => record.server_id))).sort();
+  const normalizedQuery = query.trim().toLowerCase();
+  const visible = records.filter(record =>
+    (!serverFilter || record.server_id === serverFilter) &&
+    (statusFilter === 'all' || (statusFilter === 'success') === record.success) &&
+    (!normalizedQuery ||
+      record.tool_name.toLowerCase().includes(normalizedQuery) ||
+      JSON.stringify(record.parameters).toLowerCase().includes(normalizedQuery))
+  );
+
+  const rerun = async (record: ToolExecutionRecord) => {
+    setRerunningIds(prev => [...prev, record.id]);
+    try {
+      const startedAt = Date.now();
+      const result = await runTool(sessionId, record.server_id, record.tool_name, record.parameters, abortControllerRef.current?.signal);
+      await executionLog.recordExecution(sessionId, {
+        serverId: record.server_id,
+        toolName: record.tool_name,
+        parameters: record.parameters,
+        startedAt,
+        result,
+        source: 'workbench',
+      });
+    } catch (error) {
+      if (!api.isAbortError(error)) console.error('Failed to re-run tool:', error);
+    } finally {
+      setRerunningIds(prev => prev.filter(id => id !== record.id));
+    }
+  };
+
+  const toggleDiff = (id: string) => {
+    setDiffIds(prev => {
+      if (prev.includes(id)) return prev.filter(existing => existing !== id);
+      // Picking a third run replaces the older pick
+      return [...prev, id].slice(-2);
+    });
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await executionLog.deleteExecution(id);
+      setRecords(prev => prev.filter(record => record.id !== id));
+      setDiffIds(prev => prev.filter(existing => existing !== id));
+    } catch (error) {
+      console.error('Failed to delete run:', error);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Clear the execution history for this session?')) return;
+    try {
+      await executionLog.clearExecutions(sessionId);
+      setDiffIds([]);
+    } catch (error) {
+      console.error('Failed to clear execution history:', error);
+    }
+  };
+
+  const diffRuns = records
+    .filter(record => diffIds.includes(record.id))
+    .sort((a, b) => a.executed_at.localeCompare(b.executed_at));
+
+  return (
+    <div className="p-6 bg-white rounded-xl border border-gray-200 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <History size={16} className="text-gray-600" />
+          <h2 className="text-lg font-semibold text-black">Execution History</h2>
+          <span className="text-xs text-gray-500">{records.length} run{records.length === 1 ? '' : 's'}</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setShowDiff(true)}
+            disabled={diffRuns.length !== 2}
+            className="flex items-center space-x-1 px-3 py-1.5 text-xs font-medium bg-black text-white rounded-lg hover:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
+            title={diffRuns.length === 2 ? 'Compare the two selected runs' : 'Select two runs to compare'}
+          >
+            <GitCompare size={12} />
+            <span>Compare ({diffRuns.length}/2)</span>
+          </button>
+          {records.length > 0 && (
+            <button onClick={handleClear} className="text-xs text-gray-500 hover:text-red-600">
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex items-center space-x-2">
+        <div className="flex-1 relative">
+          <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Filter by tool or parameter..."
+            aria-label="Filter runs"
+            className="w-full pl-8 pr-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
+          />
+        </div>
+        <select
+          value={serverFilter}
+          onChange={(e) => setServerFilter(e.target.value)}
+          aria-label="Server"
+          className="px-2 py-1.5 text-sm border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-black"
+        >
+          <option value="">All servers</option>
+          {servers.map(serverId => <option key={serverId} value={serverId}>{serverId}</option>)}
+        </select>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+          aria-label="Status"
+          className="px-2 py-1.5 text-sm border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-black"
+        >
+          <option value="all">Any status</option>
+          <option value="success">Succeeded</option>
+          <option value="failed">Failed</option>
+        </select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 size={20} className="animate-spin text-gray-400" />
+        </div>
+      ) : visible.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">
+          {records.length === 0 ? 'Tools you run in this session will show up here.' : 'No runs match these filters.'}
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+          {visible.map((record) => {
+            const isExpanded = expandedId === record.id;
+            const isRerunning = rerunningIds.includes(record.id);
+            return (
+              <li key={record.id} className="p-3">
+                <div className="flex items-center space-x-3">
+                  <input
+                    type="checkbox"
+                    checked={diffIds.includes(record.id)}
+                    onChange={() => toggleDiff(record.id)}
+                    aria-label="Select for comparison"
+                    className="rounded border-gray-300"
+                  />
+                  <button
+                    onClick={() => setExpandedId(isExpanded ? null : record.id)}
+                    className="flex-1 min-w-0 flex items-center space-x-2 text-left"
+                  >
+                    {isExpanded ? <ChevronDown size={14} className="text-gray-400" /> : <ChevronRight size={14} className="text-gray-400" />}
+                    {record.success
+                      ? <CheckCircle size={14} className="text-green-600 flex-shrink-0" />
+                      : <XCircle size={14} className="text-red-600 flex-shrink-0" />}
+                    <code className="text-sm font-mono text-gray-900 truncate">{record.tool_name}</code>
+                    <span className="text-xs text-gray-500 truncate">{record.server_id}</span>
+                  </button>
+                  <span className="text-xs text-gray-400 whitespace-nowrap">
+                    {new Date(record.executed_at).toLocaleString()}
+                    {record.execution_time !== undefined && ` · ${record.execution_time}ms`}
+                  </span>
+                  <span className="text-xs bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded-md">{record.source}</span>
+                  <div className="flex items-center space-x-0.5">
+                    <button
+                      onClick={() => rerun(record)}
+                      disabled={isRerunning}
+                      className="p-1.5 text-gray-400 hover:text-black hover:bg-gray-100 rounded-lg disabled:opacity-50"
+                      title="Re-run with the same parameters"
+                    >
+                      {isRerunning ? <Loader2 size={12} className="animate-spin" /> : <RotateCw size={12} />}
+                    </button>
+                    <button
+                      onClick={() => router.push(buildToolLink({ serverId: record.server_id, toolName: record.tool_name, parameters: record.parameters }))}
+                      className="p-1.5 text-gray-400 hover:text-black hover:bg-gray-100 rounded-lg"
+                      title="Edit parameters and re-run"
+                    >
+                      <Pencil size={12} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(record.id)}
+                      className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg"
+                      title="Delete run"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                </div>
+
+                {isExpanded && (
+                  <div className="mt-3 ml-7 space-y-3">
+                    <div>
+                      <h4 className="text-xs font-medium text-gray-600 mb-1">Parameters</h4>
+                      <pre className="text-xs bg-gray-50 p-3 rounded border border-gray-200 overflow-x-auto text-gray-800">
+                        {JSON.stringify(record.parameters, null, 2)}
+                      </pre>
+                    </div>
+                    {record.error && (
+                      <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{record.error}</div>
+                    )}
+                    {record.result !== undefined && record.result !== null && (
+                      <div>
+                        <h4 className="text-xs font-medium text-gray-600 mb-1">Result</h4>
+                        <ToolResultViewer value={record.result} fileName={`${record.server_id}-${record.tool_name}`} />
+                      </div>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {showDiff && diffRuns.length === 2 && (
+        <ExecutionDiffModal runs={[diffRuns[0], diffRuns[1]]} onClose={() => setShowDiff(false)} />
+      )}
+    </div>
+  );
+}
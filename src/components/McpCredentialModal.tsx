@@ -1,20 +1,14 @@
-import React, { useState } from 'react';
-import { X, Key, Database, Github, FileText, Globe, Loader2, Check, AlertCircle } from 'lucide-react';
-
-interface CredentialField {
-  name: string;
-  type: 'text' | 'password' | 'url';
-  label: string;
-  placeholder?: string;
-  required: boolean;
-  help?: string;
-}
-
-interface McpCredentialRequirement {
-  server_id: string;
-  server_name: string;
-  required_fields: CredentialField[];
-}
+import React, { useId, useState } from 'react';
+import {
+  X, Key, Database, Github, FileText, Globe, Loader2, Check, AlertCircle, Eye, EyeOff, PlugZap, CheckCircle, XCircle, AlertTriangle, MinusCircle
+} from 'lucide-react';
+import * as api from '@/lib/api';
+import { validateCredentialField, validateCredentials } from '@/lib/credentialValidation';
+import * as credentialVault from '@/lib/credentialVault';
+import { CredentialField, McpCredentialRequirement } from '@/types';
+import { CredentialCheck, CredentialCheckStatus } from '@/types/api';
+import CredentialProfilePicker from './CredentialProfilePicker';
+import Modal from './Modal';
 
 interface McpCredentialModalProps {
   isOpen: boolean;
@@ -39,6 +33,29 @@ const getServerIcon = (serverId: string) => {
   }
 };
 
+const CHECK_STYLES: Record<CredentialCheckStatus, { icon: React.ReactNode; className: string }> = {
+  passed: { icon: <CheckCircle size={12} />, className: 'text-green-700' },
+  failed: { icon: <XCircle size={12} />, className: 'text-red-600' },
+  warning: { icon: <AlertTriangle size={12} />, className: 'text-amber-600' },
+  skipped: { icon: <MinusCircle size={12} />, className: 'text-gray-400' },
+};
+
+function CheckList({ checks }: { checks: CredentialCheck[] }) {
+  return (
+    <ul className="space-y-1">
+      {checks.map((check) => (
+        <li key={`${check.id}:${check.field || ''}`} className={`flex items-start space-x-1.5 text-xs ${CHECK_STYLES[check.status].className}`}>
+          <span className="mt-0.5 flex-shrink-0">{CHECK_STYLES[check.status].icon}</span>
+          <span>
+            <span className="font-medium">{check.label}</span>
+            {check.message && <span className="text-gray-600"> — {check.message}</span>}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 export default function McpCredentialModal({
   isOpen,
   onClose,
@@ -49,15 +66,29 @@ export default function McpCredentialModal({
   const [credentials, setCredentials] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isTesting, setIsTesting] = useState(false);
+  const [checks, setChecks] = useState<{ success: boolean; message: string; checks: CredentialCheck[] } | null>(null);
+  const [visibleFields, setVisibleFields] = useState<Record<string, boolean>>({});
+  const [saveAsProfile, setSaveAsProfile] = useState(false);
+  const [profileName, setProfileName] = useState('');
+  const [profilePassphrase, setProfilePassphrase] = useState('');
+  const idPrefix = useId();
 
   if (!isOpen) return null;
 
+  const fieldId = (fieldName: string, part: string = 'input') => `${idPrefix}-${fieldName}-${part}`;
+
+  const isBusy = isSubmitting || isTesting;
+
   const handleInputChange = (fieldName: string, value: string) => {
     setCredentials(prev => ({
       ...prev,
       [fieldName]: value
     }));
 
+    // Results no longer describe what's in the form
+    setChecks(null);
+
     // Clear error when user starts typing
     if (errors[fieldName]) {
       setErrors(prev => {
@@ -68,17 +99,64 @@ export default function McpCredentialModal({
     }
   };
 
-  const validateForm = (): boolean => {
-    const newErrors: Record<string, string> = {};
+  // Format problems show up as soon as the user leaves a field; "required" waits for submit
+  const handleBlur = (field: CredentialField) => {
+    if (!credentials[field.name]?.trim()) return;
+    const error = validateCredentialField(field, credentials[field.name]);
+    if (error) setErrors(prev => ({ ...prev, [field.name]: error }));
+  };
 
-    credentialRequirements.required_fields.forEach(field => {
-      if (field.required && !credentials[field.name]?.trim()) {
-        newErrors[field.name] = `${field.label} is required`;
-      }
-    });
+  const handleProfileFill = (values: Record<string, string>) => {
+    const fieldNames = credentialRequirements.required_fields.map(field => field.name);
+    setCredentials(prev => ({
+      ...prev,
+      ...Object.fromEntries(Object.entries(values).filter(([name]) => fieldNames.includes(name))),
+    }));
+    setErrors({});
+    setChecks(null);
+  };
+
+  // Saving to the vault is a convenience, so a failure here doesn't undo the saved credentials
+  const saveToVault = async () => {
+    try {
+      await credentialVault.saveProfile({
+        name: profileName.trim() || credentialRequirements.server_name,
+        server_id: credentialRequirements.server_id,
+        values: credentials,
+        passphrase: profilePassphrase || undefined,
+      });
+    } catch (error) {
+      console.error('Failed to save credential profile:', error);
+    }
+  };
 
+  const validateForm = (): boolean => {
+    const newErrors = validateCredentials(credentialRequirements.required_fields, credentials);
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+
+    const firstInvalid = credentialRequirements.required_fields.find(field => newErrors[field.name]);
+    if (firstInvalid) document.getElementById(fieldId(firstInvalid.name))?.focus();
+    return !firstInvalid;
+  };
+
+  const handleTest = async () => {
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsTesting(true);
+    setChecks(null);
+
+    try {
+      setChecks(await api.testCredentials(sessionId, credentialRequirements.server_id, credentials));
+    } catch (error) {
+      const message = error instanceof api.ApiError && error.status > 0
+        ? error.message
+        : 'Could not test the connection. Please try again.';
+      setChecks({ success: false, message, checks: [] });
+    } finally {
+      setIsTesting(false);
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -91,36 +169,30 @@ export default function McpCredentialModal({
     setIsSubmitting(true);
 
     try {
-      const response = await fetch(
-        `http://localhost:3001/chat/${sessionId}/servers/${credentialRequirements.server_id}/credentials`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(credentials),
-        }
-      );
-
-      const result = await response.json();
+      const result = await api.saveCredentials(sessionId, credentialRequirements.server_id, credentials);
 
       if (result.success) {
+        if (saveAsProfile) await saveToVault();
         onCredentialsSubmitted(true, result.message, credentialRequirements.server_id);
         onClose();
       } else {
+        setChecks({ success: false, message: result.message, checks: result.checks || [] });
         onCredentialsSubmitted(false, result.message, credentialRequirements.server_id);
       }
     } catch (error) {
-      onCredentialsSubmitted(false, 'Failed to save credentials. Please try again.', credentialRequirements.server_id);
+      const message = error instanceof api.ApiError && error.status > 0
+        ? error.message
+        : 'Failed to save credentials. Please try again.';
+      onCredentialsSubmitted(false, message, credentialRequirements.server_id);
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const getInputType = (fieldType: string) => {
-    switch (fieldType) {
+  const getInputType = (field: CredentialField) => {
+    switch (field.type) {
       case 'password':
-        return 'password';
+        return visibleFields[field.name] ? 'text' : 'password';
       case 'url':
         return 'url';
       default:
@@ -129,21 +201,30 @@ export default function McpCredentialModal({
   };
 
   return (
-    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-xl shadow-2xl max-w-md w-full max-h-[90vh] flex flex-col">
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      labelledBy={`${idPrefix}-title`}
+      describedBy={`${idPrefix}-description`}
+      closeOnEscape={!isBusy}
+      className="bg-white rounded-xl shadow-2xl max-w-md w-full max-h-[90vh] flex flex-col"
+    >
+      <form onSubmit={handleSubmit} noValidate className="flex flex-col flex-1 min-h-0">
         {/* Fixed Header */}
         <div className="flex items-center justify-between p-5 border-b border-gray-100 flex-shrink-0">
           <div className="flex items-center space-x-3">
             {getServerIcon(credentialRequirements.server_id)}
             <div>
-              <h2 className="text-sm font-semibold text-black">Configure Credentials</h2>
+              <h2 id={`${idPrefix}-title`} className="text-sm font-semibold text-black">Configure Credentials</h2>
               <p className="text-xs text-gray-600">{credentialRequirements.server_name}</p>
             </div>
           </div>
           <button
+            type="button"
             onClick={onClose}
             className="p-1 hover:bg-gray-100 rounded-lg transition-colors"
-            disabled={isSubmitting}
+            disabled={isBusy}
+            aria-label="Close"
           >
             <X size={18} className="text-gray-400" />
           </button>
@@ -153,44 +234,131 @@ export default function McpCredentialModal({
         <div className="flex-1 overflow-y-auto">
           <div className="p-5 space-y-4">
             <div className="mb-3">
-              <p className="text-xs text-gray-600">
+              <p id={`${idPrefix}-description`} className="text-xs text-gray-600">
                 Please provide the required credentials to enable MCP tool functionality.
               </p>
             </div>
 
+            <CredentialProfilePicker
+              serverId={credentialRequirements.server_id}
+              fields={credentialRequirements.required_fields}
+              disabled={isBusy}
+              onFill={handleProfileFill}
+            />
+
             {credentialRequirements.required_fields.map((field) => (
               <div key={field.name} className="space-y-2">
-                <label className="block text-xs font-medium text-gray-700">
+                <label htmlFor={fieldId(field.name)} className="block text-xs font-medium text-gray-700">
                   {field.label}
-                  {field.required && <span className="text-red-500 ml-1">*</span>}
+                  {field.required && <span className="text-red-500 ml-1" aria-hidden="true">*</span>}
                 </label>
                 
-                <input
-                  type={getInputType(field.type)}
-                  value={credentials[field.name] || ''}
-                  onChange={(e) => handleInputChange(field.name, e.target.value)}
-                  placeholder={field.placeholder}
-                  className={`w-full px-3 py-2 text-xs border rounded-lg focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent transition-colors ${
-                    errors[field.name] 
-                      ? 'border-red-300 bg-red-50' 
-                      : 'border-gray-300 hover:border-gray-400'
-                  }`}
-                  disabled={isSubmitting}
-                />
+                <div className="relative">
+                  <input
+                    id={fieldId(field.name)}
+                    name={field.name}
+                    type={getInputType(field)}
+                    value={credentials[field.name] || ''}
+                    required={field.required}
+                    aria-invalid={!!errors[field.name]}
+                    aria-describedby={[
+                      field.help && fieldId(field.name, 'help'),
+                      errors[field.name] && fieldId(field.name, 'error'),
+                    ].filter(Boolean).join(' ') || undefined}
+                    onChange={(e) => handleInputChange(field.name, e.target.value)}
+                    onBlur={() => handleBlur(field)}
+                    placeholder={field.placeholder}
+                    autoComplete="off"
+                    className={`w-full px-3 py-2 text-xs border rounded-lg focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent transition-colors ${
+                      field.type === 'password' ? 'pr-9' : ''
+                    } ${
+                      errors[field.name] 
+                        ? 'border-red-300 bg-red-50' 
+                        : 'border-gray-300 hover:border-gray-400'
+                    }`}
+                    disabled={isBusy}
+                  />
+                  {field.type === 'password' && (
+                    <button
+                      type="button"
+                      onClick={() => setVisibleFields(prev => ({ ...prev, [field.name]: !prev[field.name] }))}
+                      className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-gray-400 hover:text-black"
+                      title={visibleFields[field.name] ? 'Hide value' : 'Show value'}
+                      aria-label={visibleFields[field.name] ? `Hide ${field.label}` : `Show ${field.label}`}
+                      aria-pressed={!!visibleFields[field.name]}
+                    >
+                      {visibleFields[field.name] ? <EyeOff size={14} /> : <Eye size={14} />}
+                    </button>
+                  )}
+                </div>
                 
                 {field.help && (
-                  <p className="text-xs text-gray-500">{field.help}</p>
+                  <p id={fieldId(field.name, 'help')} className="text-xs text-gray-500">{field.help}</p>
                 )}
                 
                 {errors[field.name] && (
-                  <div className="flex items-center space-x-1 text-red-600 text-xs">
-                    <AlertCircle size={12} />
+                  <div id={fieldId(field.name, 'error')} role="alert" className="flex items-center space-x-1 text-red-600 text-xs">
+                    <AlertCircle size={12} aria-hidden="true" />
                     <span>{errors[field.name]}</span>
                   </div>
                 )}
+
+                {checks && checks.checks.some(check => check.field === field.name) && (
+                  <CheckList checks={checks.checks.filter(check => check.field === field.name)} />
+                )}
               </div>
             ))}
 
+            {/* Connection test results that aren't about a single field */}
+            {checks && (
+              <div role="status" className={`rounded-lg p-3 border ${checks.success ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+                <p className={`text-xs font-medium mb-1.5 ${checks.success ? 'text-green-800' : 'text-red-700'}`}>
+                  {checks.message}
+                </p>
+                <CheckList checks={checks.checks.filter(check => !check.field)} />
+              </div>
+            )}
+
+            {/* Credential vault */}
+            <div className="space-y-2">
+              <label className="flex items-center space-x-2 text-xs text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={saveAsProfile}
+                  onChange={(e) => setSaveAsProfile(e.target.checked)}
+                  disabled={isBusy}
+                  className="rounded border-gray-300"
+                />
+                <span>Save as a profile to reuse in other sessions</span>
+              </label>
+              {saveAsProfile && (
+                <div className="pl-5 space-y-2">
+                  <input
+                    type="text"
+                    value={profileName}
+                    onChange={(e) => setProfileName(e.target.value)}
+                    aria-label="Profile name"
+                    placeholder={`Profile name, e.g. "${credentialRequirements.server_name} – work"`}
+                    disabled={isBusy}
+                    className="w-full px-3 py-2 text-xs border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
+                  />
+                  <input
+                    type="password"
+                    value={profilePassphrase}
+                    onChange={(e) => setProfilePassphrase(e.target.value)}
+                    aria-label="Profile passphrase"
+                    placeholder="Passphrase to encrypt it (optional)"
+                    autoComplete="new-password"
+                    disabled={isBusy}
+                    className="w-full px-3 py-2 text-xs border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
+                  />
+                  <p className="text-xs text-gray-500">
+                    Profiles stay in this browser. Without a passphrase they are stored unencrypted.
+                  </p>
+                </div>
+              )}
+            </div>
+
             {/* Help Text */}
             <div className="bg-gray-50 rounded-lg p-3 mt-4">
               <h4 className="text-xs font-medium text-gray-700 mb-1.5">🔒 Security Note</h4>
@@ -203,21 +371,32 @@ export default function McpCredentialModal({
         </div>
 
         {/* Fixed Footer */}
-        <form onSubmit={handleSubmit} className="flex-shrink-0 border-t border-gray-100">
+        <div className="flex-shrink-0 border-t border-gray-100">
           <div className="flex space-x-3 p-5">
             <button
               type="button"
               onClick={onClose}
               className="flex-1 px-4 py-2.5 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-50"
-              disabled={isSubmitting}
+              disabled={isBusy}
             >
               Cancel
             </button>
+
+            <button
+              type="button"
+              onClick={handleTest}
+              className="flex-1 px-4 py-2.5 text-xs font-medium text-gray-900 border border-gray-300 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50 flex items-center justify-center space-x-2"
+              disabled={isBusy}
+              title="Check the credentials without saving them"
+            >
+              {isTesting ? <Loader2 size={14} className="animate-spin" /> : <PlugZap size={14} />}
+              <span>{isTesting ? 'Testing...' : 'Test'}</span>
+            </button>
             
             <button
               type="submit"
               className="flex-1 px-4 py-2.5 text-xs font-medium bg-black text-white hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50 flex items-center justify-center space-x-2"
-              disabled={isSubmitting}
+              disabled={isBusy}
             >
               {isSubmitting ? (
                 <>
@@ -232,8 +411,8 @@ export default function McpCredentialModal({
               )}
             </button>
           </div>
-        </form>
-      </div>
-    </div>
+        </div>
+      </form>
+    </Modal>
   );
 } 
\ No newline at end of file
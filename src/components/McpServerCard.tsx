@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
-import { Copy, ExternalLink, Code, Database, Globe, Search, File, Server, Plus, Check, X } from 'lucide-react';
+import { Copy, ExternalLink, Code, Database, Globe, Search, File, Server, Plus, Check, X, Info, GitCompare } from 'lucide-react';
 import { McpServer } from '@/types';
+import { MAX_COMPARE } from '@/hooks/useCompareSelection';
 
 interface McpServerCardProps {
   server: McpServer;
@@ -8,9 +9,14 @@ interface McpServerCardProps {
   isInSession?: boolean;
   onAddToSession?: (server: McpServer) => Promise<void>;
   onRemoveFromSession?: (serverId: string) => Promise<void>;
+  onShowDetails?: (server: McpServer) => void;
+  isSelectedForCompare?: boolean;
+  // Set once the comparison is full, so only selected cards can still be toggled
+  compareDisabled?: boolean;
+  onToggleCompare?: (server: McpServer) => void;
 }
 
-const getCategoryIcon = (category: string) => {
+export const getCategoryIcon = (category: string) => {
   switch (category.toLowerCase()) {
     case 'database':
     case 'databases':
@@ -49,7 +55,11 @@ export default function McpServerCard({
   sessionId, 
   isInSession = false, 
   onAddToSession, 
-  onRemoveFromSession 
+  onRemoveFromSession,
+  onShowDetails,
+  isSelectedForCompare = false,
+  compareDisabled = false,
+  onToggleCompare
 }: McpServerCardProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [copySuccess, setCopySuccess] = useState(false);
@@ -133,6 +143,29 @@ export default function McpServerCard({
             </button>
           )}
           
+          {onToggleCompare && (
+            <button
+              onClick={() => onToggleCompare(server)}
+              disabled={compareDisabled && !isSelectedForCompare}
+              className={`p-1.5 rounded-lg transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed ${
+                isSelectedForCompare ? 'bg-black text-white' : 'text-gray-400 hover:text-black hover:bg-gray-100'
+              }`}
+              title={isSelectedForCompare ? 'Remove from comparison' : compareDisabled ? `You can compare up to ${MAX_COMPARE} servers` : 'Compare'}
+            >
+              <GitCompare size={12} />
+            </button>
+          )}
+
+          {onShowDetails && (
+            <button
+              onClick={() => onShowDetails(server)}
+              className="p-1.5 text-gray-400 hover:text-black hover:bg-gray-100 rounded-lg transition-all duration-200"
+              title="View details"
+            >
+              <Info size={12} />
+            </button>
+          )}
+
           {server.metadata?.source && (
             <a 
               href={server.metadata.source} 
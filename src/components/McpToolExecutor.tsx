@@ -1,29 +1,26 @@
-import React, { useState, useEffect } from 'react';
-import { Play, Loader2, CheckCircle, XCircle, Database, Github, FileText, Globe } from 'lucide-react';
-
-interface McpTool {
-  name: string;
-  description: string;
-  parameters: {
-    name: string;
-    type: string;
-    required: boolean;
-    description: string;
-  }[];
-}
-
-interface ConfiguredServer {
-  sessionId: string;
-  serverId: string;
-  serverName: string;
-  installedAt: string;
-  isActive: boolean;
-  isRunning?: boolean;
-  needsCredentials?: boolean;
-}
+import React, { useState, useEffect, useRef } from 'react';
+import { Play, Square, Loader2, RefreshCw, CheckCircle, XCircle, Database, Github, FileText, Globe, Link2, Check, Layers } from 'lucide-react';
+import * as api from '@/lib/api';
+import { runTool } from '@/lib/toolRunner';
+import * as executionLog from '@/lib/executionLog';
+import { discoverServerTools, invalidateServerTools } from '@/lib/toolDiscovery';
+import { applyServerStatus } from '@/lib/serverEvents';
+import { useServerEvents } from '@/hooks/useServerEvents';
+import { useToolPresets } from '@/hooks/useToolPresets';
+import { SchemaErrors, buildDefaultValue, coerceStringValue, validateToolParameters } from '@/lib/jsonSchema';
+import { ToolSelection, buildToolLink } from '@/lib/toolLinks';
+import { copyToClipboard } from '@/lib/download';
+import SchemaForm from './SchemaForm';
+import ToolResultViewer from './ToolResultViewer';
+import ToolPresetPanel from './ToolPresetPanel';
+import BatchRunPanel from './BatchRunPanel';
+import { ConfiguredServer, McpToolDefinition, ToolPreset } from '@/types';
+import { ServerEvent } from '@/types/api';
 
 interface McpToolExecutorProps {
   sessionId: string;
+  // Server, tool and parameter values to preselect once they have loaded, e.g. from a deep link
+  initialSelection?: ToolSelection;
 }
 
 const getServerIcon = (serverId: string) => {
@@ -41,99 +38,59 @@ const getServerIcon = (serverId: string) => {
   }
 };
 
-const getServerTools = (serverId: string): McpTool[] => {
-  const toolsMap: Record<string, McpTool[]> = {
-    'notion-mcp': [
-      {
-        name: 'search_notion',
-        description: 'Search for pages in Notion workspace',
-        parameters: [
-          { name: 'query', type: 'string', required: true, description: 'Search query' },
-          { name: 'limit', type: 'number', required: false, description: 'Maximum results (default: 10)' }
-        ]
-      },
-      {
-        name: 'create_page',
-        description: 'Create a new page in Notion',
-        parameters: [
-          { name: 'title', type: 'string', required: true, description: 'Page title' },
-          { name: 'content', type: 'string', required: false, description: 'Page content' }
-        ]
-      }
-    ],
-    'supabase-mcp': [
-      {
-        name: 'query_db',
-        description: 'Execute SQL query on Supabase database',
-        parameters: [
-          { name: 'table', type: 'string', required: true, description: 'Table name' },
-          { name: 'limit', type: 'number', required: false, description: 'Limit results (default: 10)' }
-        ]
-      },
-      {
-        name: 'create_record',
-        description: 'Create a new record in table',
-        parameters: [
-          { name: 'table', type: 'string', required: true, description: 'Table name' },
-          { name: 'data', type: 'object', required: true, description: 'Record data as JSON' }
-        ]
-      }
-    ],
-    'github-mcp': [
-      {
-        name: 'search_code',
-        description: 'Search code in repository',
-        parameters: [
-          { name: 'query', type: 'string', required: true, description: 'Search query' },
-          { name: 'language', type: 'string', required: false, description: 'Programming language filter' }
-        ]
-      },
-      {
-        name: 'create_issue',
-        description: 'Create a new GitHub issue',
-        parameters: [
-          { name: 'title', type: 'string', required: true, description: 'Issue title' },
-          { name: 'body', type: 'string', required: false, description: 'Issue description' }
-        ]
-      }
-    ],
-    'google-news-mcp': [
-      {
-        name: 'google_news_search',
-        description: 'Search Google News for articles',
-        parameters: [
-          { name: 'query', type: 'string', required: true, description: 'Search query' },
-          { name: 'language', type: 'string', required: false, description: 'Language code (e.g., en, es)' }
-        ]
-      }
-    ]
-  };
-
-  return toolsMap[serverId] || [];
-};
-
-export default function McpToolExecutor({ sessionId }: McpToolExecutorProps) {
+export default function McpToolExecutor({ sessionId, initialSelection }: McpToolExecutorProps) {
   const [configuredServers, setConfiguredServers] = useState<ConfiguredServer[]>([]);
   const [selectedServer, setSelectedServer] = useState<string>('');
   const [selectedTool, setSelectedTool] = useState<string>('');
   const [toolParameters, setToolParameters] = useState<Record<string, any>>({});
+  const [parameterErrors, setParameterErrors] = useState<SchemaErrors>({});
+  const [isParameterJsonValid, setIsParameterJsonValid] = useState(true);
   const [isExecuting, setIsExecuting] = useState(false);
   const [executionResult, setExecutionResult] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [serverTools, setServerTools] = useState<McpToolDefinition[]>([]);
+  const [isLoadingTools, setIsLoadingTools] = useState(false);
+  const [toolsError, setToolsError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const toolsRequestRef = useRef(0);
+  const pendingSelectionRef = useRef(initialSelection);
+  const [selectionNotice, setSelectionNotice] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const presets = useToolPresets();
+  const [showBatch, setShowBatch] = useState(false);
 
   useEffect(() => {
     loadConfiguredServers();
   }, [sessionId]);
 
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   const loadConfiguredServers = async () => {
     setIsLoading(true);
     try {
-      const response = await fetch(`http://localhost:3001/chat/${sessionId}/servers/configured`);
-      const data = await response.json();
-      setConfiguredServers(data.servers || []);
-      
-      if (data.servers?.length > 0) {
-        setSelectedServer(data.servers[0].serverId);
+      const data = await api.getConfiguredServers(sessionId);
+      const servers = data.servers || [];
+
+      // A server that is running now but was not before has (re)started, so its tool list may have changed
+      servers
+        .filter(server => server.isRunning && !configuredServers.find(s => s.serverId === server.serverId)?.isRunning)
+        .forEach(server => invalidateServerTools(sessionId, server.serverId));
+
+      setConfiguredServers(servers);
+
+      const requestedServer = pendingSelectionRef.current?.serverId;
+      if (requestedServer && servers.some(server => server.serverId === requestedServer)) {
+        setSelectedServer(requestedServer);
+        // The tool (if any) is picked once this server's tools have loaded
+        if (!pendingSelectionRef.current?.toolName) pendingSelectionRef.current = undefined;
+      } else {
+        if (requestedServer) {
+          setSelectionNotice(`${requestedServer} is not in this session. Add it from the chat or the catalog first.`);
+          pendingSelectionRef.current = undefined;
+        }
+        if (servers.length > 0 && !servers.some(server => server.serverId === selectedServer)) {
+          setSelectedServer(servers[0].serverId);
+        }
       }
     } catch (error) {
       console.error('Failed to load configured servers:', error);
@@ -142,108 +99,180 @@ export default function McpToolExecutor({ sessionId }: McpToolExecutorProps) {
     }
   };
 
-  const selectedServerTools = selectedServer ? getServerTools(selectedServer) : [];
+  const loadServerTools = async (serverId: string, force: boolean = false) => {
+    // Only the latest request may update state, so switching servers quickly can't show stale tools
+    const requestId = ++toolsRequestRef.current;
+    setIsLoadingTools(true);
+    setToolsError(null);
+    try {
+      const tools = await discoverServerTools(sessionId, serverId, { force });
+      if (requestId !== toolsRequestRef.current) return;
+      setServerTools(tools);
 
-  const handleParameterChange = (paramName: string, value: any) => {
-    setToolParameters(prev => ({
-      ...prev,
-      [paramName]: value
-    }));
+      const pending = pendingSelectionRef.current;
+      if (pending?.toolName && pending.serverId === serverId) {
+        pendingSelectionRef.current = undefined;
+        if (tools.some(tool => tool.name === pending.toolName)) {
+          selectTool(pending.toolName, tools, pending.parameters);
+        } else {
+          setSelectionNotice(`${serverId} has no tool named ${pending.toolName}.`);
+        }
+      }
+    } catch (error) {
+      if (requestId !== toolsRequestRef.current) return;
+      setServerTools([]);
+      setToolsError(error instanceof Error ? error.message : String(error));
+    } finally {
+      if (requestId === toolsRequestRef.current) setIsLoadingTools(false);
+    }
   };
 
-  const executeTool = async () => {
-    if (!selectedServer || !selectedTool) return;
+  useEffect(() => {
+    if (!selectedServer || configuredServers.find(s => s.serverId === selectedServer)?.needsCredentials) {
+      toolsRequestRef.current++;
+      setServerTools([]);
+      setIsLoadingTools(false);
+      return;
+    }
+    loadServerTools(selectedServer);
+  }, [sessionId, selectedServer, configuredServers]);
 
-    setIsExecuting(true);
+  const handleServerEvent = (event: ServerEvent) => {
+    switch (event.type) {
+      case 'server_status':
+        if (!configuredServers.some(s => s.serverId === event.server_id)) {
+          loadConfiguredServers();
+          return;
+        }
+        // Tools are discovered from a running process, so a fresh start may expose different ones
+        if (event.status === 'running') invalidateServerTools(sessionId, event.server_id);
+        setConfiguredServers(prev => prev.map(s => (s.serverId === event.server_id ? applyServerStatus(s, event) : s)));
+        break;
+      case 'tools_changed':
+        invalidateServerTools(sessionId, event.server_id);
+        if (event.server_id === selectedServer) loadServerTools(selectedServer, true);
+        break;
+      case 'server_removed':
+        invalidateServerTools(sessionId, event.server_id);
+        loadConfiguredServers();
+        break;
+    }
+  };
+
+  useServerEvents(sessionId, handleServerEvent, loadConfiguredServers);
+
+  const refreshServers = () => {
+    invalidateServerTools(sessionId);
+    loadConfiguredServers();
+  };
+
+  const selectedServerTools = serverTools;
+
+  const selectTool = (toolName: string, tools: McpToolDefinition[] = selectedServerTools, presetParameters?: Record<string, any>) => {
+    const tool = tools.find(t => t.name === toolName);
+    const properties = tool?.inputSchema?.properties || {};
+    const preset: Record<string, any> = {};
+    Object.keys(presetParameters || {}).forEach((key) => {
+      preset[key] = coerceStringValue(properties[key], presetParameters![key]);
+    });
+    setSelectedTool(toolName);
+    setShowBatch(false);
+    setToolParameters({ ...(buildDefaultValue(tool?.inputSchema) || {}), ...preset });
+    setParameterErrors({});
     setExecutionResult(null);
+  };
 
-    try {
-      const response = await fetch(
-        `http://localhost:3001/chat/${sessionId}/servers/${selectedServer}/tools/${selectedTool}`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ parameters: toolParameters }),
-        }
-      );
+  const handleParametersChange = (parameters: Record<string, any>) => {
+    setToolParameters(parameters);
+    if (Object.keys(parameterErrors).length > 0) {
+      setParameterErrors(validateToolParameters(selectedToolInfo?.inputSchema, parameters));
+    }
+  };
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+  const executeTool = async () => {
+    if (!selectedServer || !selectedTool || !isParameterJsonValid) return;
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      let toolExecutionResult = null;
-      let aiAnalysis = '';
-      let hasError = false;
-
-      if (reader) {
-        try {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-
-            const chunk = decoder.decode(value);
-            const lines = chunk.split('\n');
-
-            for (const line of lines) {
-              if (line.startsWith('data: ')) {
-                const data = line.slice(6);
-                if (data === '[DONE]') continue;
-
-                try {
-                  const parsed = JSON.parse(data);
-                  
-                  if (parsed.type === 'tool_execution_result') {
-                    toolExecutionResult = parsed.result;
-                  } else if (parsed.type === 'error') {
-                    hasError = true;
-                    toolExecutionResult = {
-                      success: false,
-                      error: parsed.error || parsed.message,
-                      tool_name: parsed.tool_name,
-                      server_id: parsed.server_id,
-                    };
-                  } else if (parsed.type === 'ai_analysis') {
-                    aiAnalysis += parsed.content;
-                  }
-                } catch (parseError) {
-                  console.warn('Failed to parse SSE data:', data);
-                }
-              }
-            }
-          }
-        } finally {
-          reader.releaseLock();
-        }
-      }
+    const errors = validateToolParameters(selectedToolInfo?.inputSchema, toolParameters);
+    setParameterErrors(errors);
+    if (Object.keys(errors).length > 0) return;
 
-      // Set the final result
-      if (toolExecutionResult) {
-        setExecutionResult({
-          ...toolExecutionResult,
-          ai_analysis: aiAnalysis || undefined,
-        });
-      } else {
-        setExecutionResult({
-          success: false,
-          error: 'No tool execution result received',
-        });
-      }
+    await runInvocation(selectedTool, toolParameters);
+  };
+
+  const runInvocation = async (toolName: string, parameters: Record<string, any>) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsExecuting(true);
+    setExecutionResult(null);
+
+    try {
+      const startedAt = Date.now();
+      const result = await runTool(sessionId, selectedServer, toolName, parameters, controller.signal);
+      setExecutionResult(result);
+      executionLog.recordExecution(sessionId, {
+        serverId: selectedServer,
+        toolName,
+        parameters,
+        startedAt,
+        result,
+        source: 'workbench',
+      });
     } catch (error) {
+      // runTool folds request failures into the result, so only a stop lands here
+      if (!api.isAbortError(error)) throw error;
       setExecutionResult({
         success: false,
-        error: 'Failed to execute tool: ' + (error instanceof Error ? error.message : String(error))
+        cancelled: true,
+        error: 'Execution was stopped before it finished',
       });
     } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
       setIsExecuting(false);
     }
   };
 
+  // Returns false when the server no longer has the preset's tool
+  const loadPreset = (preset: ToolPreset) => {
+    if (!selectedServerTools.some(tool => tool.name === preset.tool_name)) {
+      setSelectionNotice(`${preset.server_id} has no tool named ${preset.tool_name}.`);
+      return false;
+    }
+    setSelectionNotice(null);
+    selectTool(preset.tool_name, selectedServerTools, preset.parameters);
+    return true;
+  };
+
+  const runPreset = (preset: ToolPreset) => {
+    if (isExecuting || !loadPreset(preset)) return;
+    // Imported presets were never checked against the tool; leave invalid ones in the form to fix
+    const schema = selectedServerTools.find(tool => tool.name === preset.tool_name)?.inputSchema;
+    const errors = validateToolParameters(schema, preset.parameters);
+    if (Object.keys(errors).length > 0) {
+      setParameterErrors(errors);
+      return;
+    }
+    runInvocation(preset.tool_name, preset.parameters);
+  };
+
+  const stopExecution = () => {
+    if (!abortControllerRef.current) return;
+    abortControllerRef.current.abort();
+    abortControllerRef.current = null;
+    api.cancelSessionStream(sessionId);
+  };
+
   const selectedToolInfo = selectedServerTools.find(tool => tool.name === selectedTool);
 
+  const copyToolLink = async () => {
+    const link = buildToolLink({ serverId: selectedServer, toolName: selectedTool, parameters: toolParameters });
+    if (await copyToClipboard(`${window.location.origin}${link}`)) {
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="p-6 bg-white rounded-xl border border-gray-200">
@@ -272,10 +301,40 @@ export default function McpToolExecutor({ sessionId }: McpToolExecutorProps) {
   return (
     <div className="p-6 bg-white rounded-xl border border-gray-200 space-y-6">
       <div>
-        <h2 className="text-lg font-semibold text-black mb-2">MCP Tool Executor</h2>
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-lg font-semibold text-black">MCP Tool Executor</h2>
+          <div className="flex items-center space-x-1">
+            {selectedTool && (
+              <button
+                onClick={copyToolLink}
+                className="p-1.5 text-gray-400 hover:text-black hover:bg-gray-100 rounded-lg transition-colors"
+                title="Copy a link to this tool with these parameters"
+              >
+                {linkCopied ? <Check size={14} /> : <Link2 size={14} />}
+              </button>
+            )}
+            <button
+              onClick={refreshServers}
+              disabled={isLoadingTools}
+              className="p-1.5 text-gray-400 hover:text-black hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+              title="Refresh servers and tools"
+            >
+              <RefreshCw size={14} className={isLoadingTools ? 'animate-spin' : ''} />
+            </button>
+          </div>
+        </div>
         <p className="text-sm text-gray-600">Execute MCP server tools with your configured credentials.</p>
       </div>
 
+      {selectionNotice && (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-start justify-between text-sm text-amber-700">
+          <span>{selectionNotice}</span>
+          <button onClick={() => setSelectionNotice(null)} className="text-xs font-medium underline ml-3 flex-shrink-0">
+            Dismiss
+          </button>
+        </div>
+      )}
+
       {/* Server Selection */}
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-2">Select Server</label>
@@ -284,7 +343,9 @@ export default function McpToolExecutor({ sessionId }: McpToolExecutorProps) {
           onChange={(e) => {
             setSelectedServer(e.target.value);
             setSelectedTool('');
+            setShowBatch(false);
             setToolParameters({});
+            setParameterErrors({});
             setExecutionResult(null);
           }}
           className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent"
@@ -314,22 +375,55 @@ export default function McpToolExecutor({ sessionId }: McpToolExecutorProps) {
       </div>
 
       {/* Tool Selection */}
-      {selectedServer && (
+      {selectedServer && isLoadingTools && (
+        <div className="flex items-center text-sm text-gray-600">
+          <Loader2 size={16} className="animate-spin text-gray-400" />
+          <span className="ml-2">Discovering tools...</span>
+        </div>
+      )}
+
+      {selectedServer && !isLoadingTools && toolsError && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-start justify-between">
+          <p className="text-sm text-red-700">Failed to load tools: {toolsError}</p>
+          <button
+            onClick={() => loadServerTools(selectedServer, true)}
+            className="text-xs font-medium text-red-700 underline ml-3 flex-shrink-0"
+          >
+            Retry
+          </button>
+        </div>
+      )}
+
+      {selectedServer && !isLoadingTools && !toolsError && selectedServerTools.length === 0 &&
+        !configuredServers.find(s => s.serverId === selectedServer)?.needsCredentials && (
+        <p className="text-sm text-gray-500 italic">This server does not expose any tools.</p>
+      )}
+
+      {selectedServer && !isLoadingTools && selectedServerTools.length > 0 && (
+        <ToolPresetPanel
+          serverId={selectedServer}
+          presets={presets.filter(preset => preset.server_id === selectedServer)}
+          toolName={selectedTool}
+          parameters={toolParameters}
+          canSave={!!selectedToolInfo && isParameterJsonValid}
+          disabled={isExecuting}
+          onLoad={loadPreset}
+          onRun={runPreset}
+        />
+      )}
+
+      {selectedServer && !isLoadingTools && selectedServerTools.length > 0 && (
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">Select Tool</label>
           <select
             value={selectedTool}
-            onChange={(e) => {
-              setSelectedTool(e.target.value);
-              setToolParameters({});
-              setExecutionResult(null);
-            }}
+            onChange={(e) => selectTool(e.target.value)}
             className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent"
           >
             <option value="">Choose a tool...</option>
             {selectedServerTools.map((tool) => (
               <option key={tool.name} value={tool.name}>
-                {tool.name} - {tool.description}
+                {tool.description ? `${tool.name} - ${tool.description}` : tool.name}
               </option>
             ))}
           </select>
@@ -340,40 +434,39 @@ export default function McpToolExecutor({ sessionId }: McpToolExecutorProps) {
       {selectedTool && selectedToolInfo && (
         <div>
           <h3 className="text-sm font-medium text-gray-700 mb-3">Tool Parameters</h3>
-          <div className="space-y-3">
-            {selectedToolInfo.parameters.map((param) => (
-              <div key={param.name}>
-                <label className="block text-sm font-medium text-gray-600 mb-1">
-                  {param.name}
-                  {param.required && <span className="text-red-500 ml-1">*</span>}
-                </label>
-                <input
-                  type={param.type === 'number' ? 'number' : 'text'}
-                  value={toolParameters[param.name] || ''}
-                  onChange={(e) => handleParameterChange(param.name, e.target.value)}
-                  placeholder={param.description}
-                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent text-sm"
-                />
-                <p className="text-xs text-gray-500 mt-1">{param.description}</p>
-              </div>
-            ))}
-          </div>
+          <SchemaForm
+            schema={selectedToolInfo.inputSchema}
+            value={toolParameters}
+            onChange={handleParametersChange}
+            errors={parameterErrors}
+            disabled={isExecuting}
+            onJsonValidityChange={setIsParameterJsonValid}
+          />
         </div>
       )}
 
       {/* Execute Button */}
-      {selectedTool && (
+      {selectedTool && isExecuting && (
+        <button
+          onClick={stopExecution}
+          className="w-full flex items-center justify-center space-x-2 bg-white text-gray-900 border border-gray-300 py-2 px-4 rounded-lg hover:bg-gray-100 transition-colors"
+        >
+          <Loader2 size={16} className="animate-spin" />
+          <span>Executing...</span>
+          <span className="flex items-center space-x-1 text-gray-500">
+            <Square size={12} className="fill-current" />
+            <span>Stop</span>
+          </span>
+        </button>
+      )}
+
+      {selectedTool && !isExecuting && (
         <button
           onClick={executeTool}
-          disabled={isExecuting || configuredServers.find(s => s.serverId === selectedServer)?.needsCredentials}
+          disabled={!isParameterJsonValid || configuredServers.find(s => s.serverId === selectedServer)?.needsCredentials}
           className="w-full flex items-center justify-center space-x-2 bg-black text-white py-2 px-4 rounded-lg hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
         >
-          {isExecuting ? (
-            <>
-              <Loader2 size={16} className="animate-spin" />
-              <span>Executing...</span>
-            </>
-          ) : configuredServers.find(s => s.serverId === selectedServer)?.needsCredentials ? (
+          {configuredServers.find(s => s.serverId === selectedServer)?.needsCredentials ? (
             <>
               <XCircle size={16} />
               <span>Server Needs Credentials</span>
@@ -387,6 +480,27 @@ export default function McpToolExecutor({ sessionId }: McpToolExecutorProps) {
         </button>
       )}
 
+      {selectedTool && selectedToolInfo && !configuredServers.find(s => s.serverId === selectedServer)?.needsCredentials && (
+        showBatch ? (
+          <BatchRunPanel
+            key={`${selectedServer}:${selectedTool}`}
+            sessionId={sessionId}
+            serverId={selectedServer}
+            tool={selectedToolInfo}
+            disabled={isExecuting}
+            onClose={() => setShowBatch(false)}
+          />
+        ) : (
+          <button
+            onClick={() => setShowBatch(true)}
+            className="flex items-center space-x-1 text-xs text-gray-500 hover:text-black"
+          >
+            <Layers size={12} />
+            <span>Run over a list of inputs</span>
+          </button>
+        )
+      )}
+
       {/* Execution Result */}
       {executionResult && (
         <div className="mt-6">
@@ -397,7 +511,7 @@ export default function McpToolExecutor({ sessionId }: McpToolExecutorProps) {
               <XCircle size={18} className="text-red-600" />
             )}
             <h3 className="text-sm font-medium text-gray-700">
-              Execution {executionResult.success ? 'Successful' : 'Failed'}
+              Execution {executionResult.success ? 'Successful' : executionResult.cancelled ? 'Stopped' : 'Failed'}
             </h3>
           </div>
           
@@ -418,6 +532,19 @@ export default function McpToolExecutor({ sessionId }: McpToolExecutorProps) {
             </div>
           )}
 
+          {!executionResult.success && executionResult.error && !executionResult.error.includes('not running') && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4 text-sm text-red-700">
+              {executionResult.error}
+            </div>
+          )}
+
+          {(executionResult.message || executionResult.execution_time) && (
+            <div className="flex items-center justify-between text-xs text-gray-600 mb-4">
+              <span>{executionResult.message}</span>
+              {executionResult.execution_time && <span>{executionResult.execution_time}ms</span>}
+            </div>
+          )}
+
           {executionResult.success && executionResult.ai_analysis && (
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
               <h4 className="text-sm font-medium text-blue-800 mb-2">AI Analysis</h4>
@@ -427,12 +554,12 @@ export default function McpToolExecutor({ sessionId }: McpToolExecutorProps) {
             </div>
           )}
           
-          <div className="bg-gray-50 rounded-lg p-4 border">
-            <h4 className="text-xs font-medium text-gray-600 mb-2">Raw Result</h4>
-            <pre className="text-xs text-gray-800 whitespace-pre-wrap overflow-x-auto">
-              {JSON.stringify(executionResult, null, 2)}
-            </pre>
-          </div>
+          {executionResult.result !== undefined && executionResult.result !== null && (
+            <div className="bg-gray-50 rounded-lg p-4 border">
+              <h4 className="text-xs font-medium text-gray-600 mb-2">Result</h4>
+              <ToolResultViewer value={executionResult.result} fileName={`${selectedServer}-${selectedTool}`} />
+            </div>
+          )}
         </div>
       )}
     </div>
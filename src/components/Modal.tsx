@@ -0,0 +1,98 @@
+import React, { useEffect, useRef } from 'react';
+
+interface ModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Id of the element that names the dialog, usually its heading
+  labelledBy: string;
+  describedBy?: string;
+  // Classes for the dialog panel; the backdrop is always the same
+  className: string;
+  // Turn off while something is in flight that closing would interrupt
+  closeOnEscape?: boolean;
+  children: React.ReactNode;
+}
+
+const FOCUSABLE_SELECTOR = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled]):not([type="hidden"])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+].join(',');
+
+/**
+ * Dialog shell shared by the app's modals: keeps Tab focus inside the
+ * dialog, closes on Escape and gives focus back to whatever opened it.
+ */
+export default function Modal({
+  isOpen,
+  onClose,
+  labelledBy,
+  describedBy,
+  className,
+  closeOnEscape = true,
+  children,
+}: ModalProps) {
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const previouslyFocused = document.activeElement as HTMLElement | null;
+
+    const dialog = dialogRef.current;
+    const firstInput = dialog?.querySelector<HTMLElement>('input:not([disabled]):not([type="hidden"]), select, textarea');
+    (firstInput || dialog)?.focus();
+
+    return () => {
+      if (previouslyFocused && document.contains(previouslyFocused)) previouslyFocused.focus();
+    };
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Escape') {
+      // Keep outer listeners (e.g. a drawer underneath) from closing too
+      e.stopPropagation();
+      if (closeOnEscape) onClose();
+      return;
+    }
+
+    if (e.key !== 'Tab' || !dialogRef.current) return;
+    const focusable = Array.from(dialogRef.current.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR))
+      .filter(element => element.offsetParent !== null);
+    if (focusable.length === 0) {
+      e.preventDefault();
+      return;
+    }
+
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (e.shiftKey && (document.activeElement === first || document.activeElement === dialogRef.current)) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={labelledBy}
+        aria-describedby={describedBy}
+        tabIndex={-1}
+        onKeyDown={handleKeyDown}
+        className={`focus:outline-none ${className}`}
+      >
+        {children}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,469 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Plus, Trash2, Braces, List } from 'lucide-react';
+import { JsonSchema } from '@/types';
+import { SchemaErrors, buildDefaultValue, getSchemaType, joinSchemaPath } from '@/lib/jsonSchema';
+
+interface SchemaFormProps {
+  schema?: JsonSchema;
+  value: Record<string, any>;
+  onChange: (value: Record<string, any>) => void;
+  errors?: SchemaErrors;
+  disabled?: boolean;
+  // Reports whether every raw-JSON editor currently holds parseable JSON
+  onJsonValidityChange?: (valid: boolean) => void;
+}
+
+interface FieldProps {
+  name: string;
+  path: string;
+  schema: JsonSchema;
+  value: any;
+  required: boolean;
+  onChange: (value: any) => void;
+  errors: SchemaErrors;
+  disabled: boolean;
+  reportJsonError: (path: string, error: string | null) => void;
+}
+
+const inputClassName = (hasError: boolean) =>
+  `w-full p-2 border rounded-lg focus:ring-2 focus:ring-black focus:border-transparent text-sm ${
+    hasError ? 'border-red-300 bg-red-50' : 'border-gray-300'
+  }`;
+
+const getStringInputType = (format?: string) => {
+  switch (format) {
+    case 'uri':
+    case 'url':
+      return 'url';
+    case 'email':
+      return 'email';
+    case 'date':
+      return 'date';
+    case 'date-time':
+      return 'datetime-local';
+    default:
+      return 'text';
+  }
+};
+
+const FieldError = ({ message }: { message?: string }) =>
+  message ? <p className="text-xs text-red-600 mt-1">{message}</p> : null;
+
+function JsonValueEditor({
+  path,
+  value,
+  onChange,
+  disabled,
+  hasError,
+  reportJsonError,
+  rows = 4,
+  requireObject = false,
+}: {
+  path: string;
+  value: any;
+  onChange: (value: any) => void;
+  disabled: boolean;
+  hasError: boolean;
+  reportJsonError: (path: string, error: string | null) => void;
+  rows?: number;
+  requireObject?: boolean;
+}) {
+  const serialize = (v: any) => (v === undefined ? '' : JSON.stringify(v, null, 2));
+  const [text, setText] = useState(serialize(value));
+  const [parseError, setParseError] = useState<string | null>(null);
+  const lastEmitted = useRef(value);
+
+  // Pick up changes made outside this editor (e.g. switching tools or form mode)
+  useEffect(() => {
+    if (value !== lastEmitted.current) {
+      setText(serialize(value));
+      setParseError(null);
+      reportJsonError(path, null);
+      lastEmitted.current = value;
+    }
+  }, [value]);
+
+  useEffect(() => () => reportJsonError(path, null), []);
+
+  const handleChange = (nextText: string) => {
+    setText(nextText);
+    if (!nextText.trim()) {
+      // An empty object editor stands for {}; the text stays empty while the user types
+      const emptyValue = requireObject ? {} : undefined;
+      setParseError(null);
+      reportJsonError(path, null);
+      lastEmitted.current = emptyValue;
+      onChange(emptyValue);
+      return;
+    }
+    try {
+      const parsed = JSON.parse(nextText);
+      if (requireObject && (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed))) {
+        throw new Error('expected an object like { "name": "value" }');
+      }
+      setParseError(null);
+      reportJsonError(path, null);
+      lastEmitted.current = parsed;
+      onChange(parsed);
+    } catch (error) {
+      const message = `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`;
+      setParseError(message);
+      reportJsonError(path, message);
+    }
+  };
+
+  return (
+    <>
+      <textarea
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        rows={rows}
+        disabled={disabled}
+        spellCheck={false}
+        className={`${inputClassName(hasError || !!parseError)} font-mono text-xs`}
+      />
+      <FieldError message={parseError || undefined} />
+    </>
+  );
+}
+
+function SchemaField({ name, path, schema, value, required, onChange, errors, disabled, reportJsonError }: FieldProps) {
+  const type = getSchemaType(schema);
+  const error = errors[path];
+  const description = schema.description;
+
+  const label = (
+    <label className="block text-sm font-medium text-gray-600 mb-1">
+      {schema.title || name}
+      {required && <span className="text-red-500 ml-1">*</span>}
+      {type !== 'any' && <span className="ml-2 text-xs font-normal text-gray-400">{type}</span>}
+    </label>
+  );
+
+  const hints: string[] = [];
+  if (schema.minimum !== undefined) hints.push(`min ${schema.minimum}`);
+  if (schema.maximum !== undefined) hints.push(`max ${schema.maximum}`);
+  if (schema.pattern) hints.push(`pattern ${schema.pattern}`);
+  if (schema.default !== undefined) hints.push(`default ${JSON.stringify(schema.default)}`);
+
+  const helpText = (description || hints.length > 0) && (
+    <p className="text-xs text-gray-500 mt-1">
+      {description}
+      {description && hints.length > 0 && ' · '}
+      {hints.join(', ')}
+    </p>
+  );
+
+  if (schema.enum && schema.enum.length > 0) {
+    const selectedIndex = schema.enum.findIndex(option => JSON.stringify(option) === JSON.stringify(value));
+    return (
+      <div>
+        {label}
+        <select
+          value={selectedIndex === -1 ? '' : String(selectedIndex)}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : schema.enum![Number(e.target.value)])}
+          disabled={disabled}
+          className={inputClassName(!!error)}
+        >
+          <option value="">{required ? 'Choose...' : '(not set)'}</option>
+          {schema.enum.map((option, index) => (
+            <option key={index} value={String(index)}>
+              {String(option)}
+            </option>
+          ))}
+        </select>
+        {helpText}
+        <FieldError message={error} />
+      </div>
+    );
+  }
+
+  if (type === 'boolean') {
+    const checked = value === true;
+    return (
+      <div>
+        <div className="flex items-center justify-between">
+          {label}
+          <button
+            type="button"
+            role="switch"
+            aria-checked={checked}
+            onClick={() => onChange(!checked)}
+            disabled={disabled}
+            className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors disabled:opacity-50 ${
+              checked ? 'bg-black' : 'bg-gray-300'
+            }`}
+          >
+            <span
+              className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                checked ? 'translate-x-4' : 'translate-x-0.5'
+              }`}
+            />
+          </button>
+        </div>
+        {helpText}
+        <FieldError message={error} />
+      </div>
+    );
+  }
+
+  if (type === 'number' || type === 'integer') {
+    return (
+      <div>
+        {label}
+        <input
+          type="number"
+          value={value === undefined || value === null ? '' : value}
+          min={schema.minimum}
+          max={schema.maximum}
+          step={type === 'integer' ? 1 : 'any'}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+          placeholder={description}
+          disabled={disabled}
+          className={inputClassName(!!error)}
+        />
+        {helpText}
+        <FieldError message={error} />
+      </div>
+    );
+  }
+
+  if (type === 'string') {
+    return (
+      <div>
+        {label}
+        <input
+          type={getStringInputType(schema.format)}
+          value={value ?? ''}
+          pattern={schema.pattern}
+          minLength={schema.minLength}
+          maxLength={schema.maxLength}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value)}
+          placeholder={description}
+          disabled={disabled}
+          className={inputClassName(!!error)}
+        />
+        {helpText}
+        <FieldError message={error} />
+      </div>
+    );
+  }
+
+  if (type === 'object' && schema.properties) {
+    return (
+      <fieldset className="border border-gray-200 rounded-lg p-3">
+        <legend className="px-1 text-sm font-medium text-gray-600">
+          {schema.title || name}
+          {required && <span className="text-red-500 ml-1">*</span>}
+        </legend>
+        {description && <p className="text-xs text-gray-500 mb-2">{description}</p>}
+        <ObjectFields
+          schema={schema}
+          path={path}
+          value={value || {}}
+          onChange={onChange}
+          errors={errors}
+          disabled={disabled}
+          reportJsonError={reportJsonError}
+        />
+        <FieldError message={error} />
+      </fieldset>
+    );
+  }
+
+  if (type === 'array' && schema.items) {
+    const items: any[] = Array.isArray(value) ? value : [];
+    const updateItem = (index: number, itemValue: any) => {
+      const next = items.slice();
+      next[index] = itemValue;
+      onChange(next);
+    };
+    const removeItem = (index: number) => {
+      const next = items.filter((_, i) => i !== index);
+      onChange(next.length > 0 ? next : undefined);
+    };
+
+    return (
+      <div>
+        {label}
+        <div className="space-y-2">
+          {items.map((item, index) => (
+            <div key={index} className="flex items-start space-x-2">
+              <div className="flex-1">
+                <SchemaField
+                  name={`${name}[${index}]`}
+                  path={joinSchemaPath(path, index)}
+                  schema={schema.items!}
+                  value={item}
+                  required={false}
+                  onChange={(itemValue) => updateItem(index, itemValue)}
+                  errors={errors}
+                  disabled={disabled}
+                  reportJsonError={reportJsonError}
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => removeItem(index)}
+                disabled={disabled}
+                className="mt-7 p-1.5 text-gray-400 hover:text-red-600 hover:bg-gray-100 rounded-lg transition-colors"
+                title="Remove item"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => onChange([...items, buildDefaultValue(schema.items)])}
+            disabled={disabled || (schema.maxItems !== undefined && items.length >= schema.maxItems)}
+            className="flex items-center space-x-1 text-xs font-medium text-gray-700 hover:text-black disabled:opacity-50"
+          >
+            <Plus size={12} />
+            <span>Add item</span>
+          </button>
+        </div>
+        {helpText}
+        <FieldError message={error} />
+      </div>
+    );
+  }
+
+  // Free-form objects, untyped arrays and unknown types fall back to a JSON editor
+  return (
+    <div>
+      {label}
+      <JsonValueEditor
+        path={path}
+        value={value}
+        onChange={onChange}
+        disabled={disabled}
+        hasError={!!error}
+        reportJsonError={reportJsonError}
+      />
+      {helpText}
+      <FieldError message={error} />
+    </div>
+  );
+}
+
+function ObjectFields({
+  schema,
+  path,
+  value,
+  onChange,
+  errors,
+  disabled,
+  reportJsonError,
+}: {
+  schema: JsonSchema;
+  path: string;
+  value: Record<string, any>;
+  onChange: (value: Record<string, any>) => void;
+  errors: SchemaErrors;
+  disabled: boolean;
+  reportJsonError: (path: string, error: string | null) => void;
+}) {
+  const properties = schema.properties || {};
+  const required = schema.required || [];
+
+  const updateProperty = (key: string, propertyValue: any) => {
+    const next = { ...value };
+    if (propertyValue === undefined) {
+      delete next[key];
+    } else {
+      next[key] = propertyValue;
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      {Object.keys(properties).map((key) => (
+        <SchemaField
+          key={key}
+          name={key}
+          path={joinSchemaPath(path, key)}
+          schema={properties[key]}
+          value={value[key]}
+          required={required.includes(key)}
+          onChange={(propertyValue) => updateProperty(key, propertyValue)}
+          errors={errors}
+          disabled={disabled}
+          reportJsonError={reportJsonError}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default function SchemaForm({
+  schema,
+  value,
+  onChange,
+  errors = {},
+  disabled = false,
+  onJsonValidityChange,
+}: SchemaFormProps) {
+  const hasFields = !!schema?.properties && Object.keys(schema.properties).length > 0;
+  const [rawMode, setRawMode] = useState(!hasFields);
+  const invalidJsonPaths = useRef<Record<string, string>>({});
+
+  useEffect(() => {
+    setRawMode(!hasFields);
+  }, [schema]);
+
+  const reportJsonError = (path: string, error: string | null) => {
+    if (error) {
+      invalidJsonPaths.current[path] = error;
+    } else {
+      delete invalidJsonPaths.current[path];
+    }
+    onJsonValidityChange?.(Object.keys(invalidJsonPaths.current).length === 0);
+  };
+
+  return (
+    <div className="space-y-3">
+      {hasFields && (
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={() => setRawMode(!rawMode)}
+            className="flex items-center space-x-1 text-xs font-medium text-gray-500 hover:text-black transition-colors"
+          >
+            {rawMode ? <List size={12} /> : <Braces size={12} />}
+            <span>{rawMode ? 'Edit as form' : 'Edit as JSON'}</span>
+          </button>
+        </div>
+      )}
+
+      {rawMode ? (
+        <div>
+          <JsonValueEditor
+            path="$raw"
+            value={value}
+            onChange={onChange}
+            disabled={disabled}
+            hasError={Object.keys(errors).length > 0}
+            reportJsonError={reportJsonError}
+            rows={8}
+            requireObject
+          />
+          {Object.keys(errors).map((path) => (
+            <FieldError key={path} message={errors[path]} />
+          ))}
+        </div>
+      ) : (
+        <ObjectFields
+          schema={schema!}
+          path=""
+          value={value}
+          onChange={onChange}
+          errors={errors}
+          disabled={disabled}
+          reportJsonError={reportJsonError}
+        />
+      )}
+    </div>
+  );
+}
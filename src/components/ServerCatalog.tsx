@@ -0,0 +1,323 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { Search, Loader2, ChevronLeft, ChevronRight, MessageSquare, X, Star } from 'lucide-react';
+import * as api from '@/lib/api';
+import { useSessionId } from '@/hooks/useSessionId';
+import { useSessionServers } from '@/hooks/useSessionServers';
+import { useCompareSelection } from '@/hooks/useCompareSelection';
+import { McpServer } from '@/types';
+import { CatalogFacet, CatalogSearchResponse, CatalogSort } from '@/types/api';
+import McpServerCard, { getCategoryIcon } from './McpServerCard';
+import McpCredentialModal from './McpCredentialModal';
+import ServerDetailDrawer from './ServerDetailDrawer';
+import ServerCompareModal from './ServerCompareModal';
+import ServerCompareTray from './ServerCompareTray';
+
+const PAGE_SIZE = 24;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const FACETS: { key: CatalogFacet; label: string }[] = [
+  { key: 'category', label: 'Category' },
+  { key: 'language', label: 'Language' },
+  { key: 'license', label: 'License' },
+  { key: 'quality', label: 'Quality' },
+];
+
+const SORT_LABELS: Record<CatalogSort, string> = {
+  relevance: 'Best match',
+  stars: 'Most stars',
+  quality: 'Highest quality',
+};
+
+type Filters = Partial<Record<CatalogFacet, string[]>>;
+
+export default function ServerCatalog() {
+  const sessionId = useSessionId();
+  const session = useSessionServers(sessionId);
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [filters, setFilters] = useState<Filters>({});
+  const [sort, setSort] = useState<CatalogSort>('relevance');
+  const [page, setPage] = useState(1);
+  const [results, setResults] = useState<CatalogSearchResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState('');
+  const [detailServer, setDetailServer] = useState<McpServer | null>(null);
+  const compare = useCompareSelection();
+  const [showCompareModal, setShowCompareModal] = useState(false);
+  const requestRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  // Any change to what we're searching for starts over at the first page
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedQuery, filters, sort]);
+
+  useEffect(() => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    setIsLoading(true);
+    setError(null);
+
+    api.searchCatalog({ query: debouncedQuery, filters, sort, page, page_size: PAGE_SIZE }, { signal: controller.signal })
+      .then(setResults)
+      .catch((searchError) => {
+        if (api.isAbortError(searchError)) return;
+        setError(searchError instanceof Error ? searchError.message : String(searchError));
+      })
+      .finally(() => {
+        if (requestRef.current === controller) {
+          requestRef.current = null;
+          setIsLoading(false);
+        }
+      });
+
+    return () => controller.abort();
+  }, [debouncedQuery, filters, sort, page]);
+
+  const toggleFilter = (facet: CatalogFacet, value: string) => {
+    setFilters(prev => {
+      const current = prev[facet] || [];
+      const next = current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+      return { ...prev, [facet]: next };
+    });
+  };
+
+  const activeFilters = FACETS.flatMap(({ key }) => (filters[key] || []).map(value => ({ facet: key, value })));
+  const totalPages = results ? Math.max(1, Math.ceil(results.total / (results.page_size || PAGE_SIZE))) : 1;
+
+  const showStatus = (message: string) => {
+    setStatusMessage(message);
+    setTimeout(() => setStatusMessage(''), 3000);
+  };
+
+  const handleAdd = async (toAdd: McpServer) => {
+    try {
+      if (await session.addServer(toAdd)) showStatus(`✅ Added ${toAdd.name} to your session!`);
+    } catch (addError) {
+      showStatus(`❌ Failed to add ${toAdd.name}`);
+      throw addError;
+    }
+  };
+
+  const handleRemove = async (serverId: string) => {
+    try {
+      await session.removeServer(serverId);
+    } catch (removeError) {
+      showStatus('❌ Failed to remove server');
+      throw removeError;
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 shadow-sm">
+        <div className="max-w-7xl mx-auto px-6 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-lg font-semibold text-gray-900">MCP Server Catalog</h1>
+            <p className="text-xs text-gray-600">Browse every server and add the ones you need to your session</p>
+          </div>
+          <Link
+            href="/"
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-all duration-200 text-sm font-medium"
+          >
+            <MessageSquare size={16} />
+            <span>Back to chat</span>
+          </Link>
+        </div>
+        <div className="max-w-7xl mx-auto px-6 pb-4 flex items-center space-x-3">
+          <div className="flex-1 relative">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by name, description or tool..."
+              className="w-full pl-9 pr-4 py-2.5 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent bg-white text-sm"
+            />
+          </div>
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as CatalogSort)}
+            className="px-3 py-2.5 border border-gray-300 rounded-xl text-sm bg-white focus:outline-none focus:ring-2 focus:ring-black"
+          >
+            {(Object.keys(SORT_LABELS) as CatalogSort[]).map((key) => (
+              <option key={key} value={key}>{SORT_LABELS[key]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-6 py-6 flex space-x-6">
+        {/* Facets */}
+        <aside className="w-56 flex-shrink-0 space-y-6">
+          {FACETS.map(({ key, label }) => {
+            const values = results?.facets[key] || [];
+            if (values.length === 0) return null;
+            return (
+              <div key={key}>
+                <h3 className="text-xs font-medium text-gray-700 uppercase tracking-wide mb-2">{label}</h3>
+                <div className="space-y-1">
+                  {values.map(({ value, count }) => (
+                    <label key={value} className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer hover:text-black">
+                      <input
+                        type="checkbox"
+                        checked={(filters[key] || []).includes(value)}
+                        onChange={() => toggleFilter(key, value)}
+                        className="rounded border-gray-300"
+                      />
+                      {key === 'category' && getCategoryIcon(value)}
+                      {key === 'quality' && <Star size={12} className="text-gray-500" />}
+                      <span className="flex-1 truncate">{value}</span>
+                      <span className="text-xs text-gray-400">{count}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </aside>
+
+        {/* Results */}
+        <section className={`flex-1 min-w-0 space-y-4 ${compare.selected.length > 0 ? 'pb-20' : ''}`}>
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-600">
+              {results ? `${results.total.toLocaleString()} server${results.total === 1 ? '' : 's'}` : 'Searching...'}
+            </p>
+            {activeFilters.length > 0 && (
+              <div className="flex flex-wrap gap-1 justify-end">
+                {activeFilters.map(({ facet, value }) => (
+                  <button
+                    key={`${facet}:${value}`}
+                    onClick={() => toggleFilter(facet, value)}
+                    className="flex items-center space-x-1 text-xs bg-white border border-gray-200 px-2 py-1 rounded-md hover:border-gray-300"
+                  >
+                    <span>{value}</span>
+                    <X size={10} />
+                  </button>
+                ))}
+                <button onClick={() => setFilters({})} className="text-xs text-gray-500 hover:text-black px-2 py-1">
+                  Clear all
+                </button>
+              </div>
+            )}
+          </div>
+
+          {error ? (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+              Could not load the catalog: {error}
+            </div>
+          ) : isLoading && !results ? (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 size={24} className="animate-spin text-gray-400" />
+            </div>
+          ) : results && results.servers.length === 0 ? (
+            <div className="text-center py-16">
+              <Search size={32} className="text-gray-300 mx-auto mb-3" />
+              <p className="text-sm text-gray-500 font-medium">No servers match your search</p>
+            </div>
+          ) : (
+            <div className={`grid md:grid-cols-2 xl:grid-cols-3 gap-4 ${isLoading ? 'opacity-60' : ''}`}>
+              {results?.servers.map((server) => (
+                <McpServerCard
+                  key={server.id}
+                  server={server}
+                  sessionId={sessionId}
+                  isInSession={session.isInSession(server.id)}
+                  onAddToSession={handleAdd}
+                  onRemoveFromSession={handleRemove}
+                  onShowDetails={setDetailServer}
+                  isSelectedForCompare={compare.isSelected(server.id)}
+                  compareDisabled={compare.isFull}
+                  onToggleCompare={compare.toggle}
+                />
+              ))}
+            </div>
+          )}
+
+          {results && totalPages > 1 && (
+            <div className="flex items-center justify-center space-x-3 pt-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1 || isLoading}
+                className="p-2 rounded-lg border border-gray-200 bg-white hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Previous page"
+              >
+                <ChevronLeft size={16} />
+              </button>
+              <span className="text-sm text-gray-600">Page {page} of {totalPages}</span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= totalPages || isLoading}
+                className="p-2 rounded-lg border border-gray-200 bg-white hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Next page"
+              >
+                <ChevronRight size={16} />
+              </button>
+            </div>
+          )}
+        </section>
+      </div>
+
+      {statusMessage && (
+        <div className="fixed bottom-4 right-4 bg-gray-900 text-white px-4 py-3 rounded-xl shadow-lg text-sm z-40">
+          {statusMessage}
+        </div>
+      )}
+
+      {compare.selected.length > 0 && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 max-w-[90vw]">
+          <ServerCompareTray
+            servers={compare.selected}
+            onRemove={compare.remove}
+            onClear={compare.clear}
+            onCompare={() => setShowCompareModal(true)}
+          />
+        </div>
+      )}
+
+      {showCompareModal && compare.canCompare && (
+        <ServerCompareModal
+          servers={compare.selected}
+          sessionId={sessionId}
+          isInSession={session.isInSession}
+          onAdd={handleAdd}
+          onClose={() => setShowCompareModal(false)}
+        />
+      )}
+
+      {detailServer && (
+        <ServerDetailDrawer
+          server={detailServer}
+          sessionId={sessionId}
+          isInSession={session.isInSession(detailServer.id)}
+          onAdd={handleAdd}
+          onRemove={handleRemove}
+          onClose={() => setDetailServer(null)}
+        />
+      )}
+
+      {session.credentialRequirements && (
+        <McpCredentialModal
+          isOpen
+          onClose={session.dismissCredentials}
+          sessionId={sessionId}
+          credentialRequirements={session.credentialRequirements}
+          onCredentialsSubmitted={(success, message, serverId) => {
+            session.handleCredentialsSubmitted(success, message, serverId);
+            showStatus(success ? `✅ ${message}` : `❌ ${message}`);
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react';
+import { X, Plus, Check, Copy, Loader2, GitCompare } from 'lucide-react';
+import * as api from '@/lib/api';
+import { copyToClipboard } from '@/lib/download';
+import { CredentialField, McpServer } from '@/types';
+import { getCategoryIcon } from './McpServerCard';
+import Modal from './Modal';
+
+interface ServerCompareModalProps {
+  servers: McpServer[];
+  sessionId: string;
+  isInSession: (serverId: string) => boolean;
+  onAdd: (server: McpServer) => Promise<void>;
+  onClose: () => void;
+}
+
+// Tools every server offers come first, then by how many servers share them
+const compareTools = (servers: McpServer[]) => {
+  const owners = new Map<string, string[]>();
+  servers.forEach((server) => {
+    (server.tools || []).forEach((tool) => owners.set(tool, [...(owners.get(tool) || []), server.id]));
+  });
+  return Array.from(owners.entries())
+    .map(([name, serverIds]) => ({ name, serverIds }))
+    .sort((a, b) => b.serverIds.length - a.serverIds.length || a.name.localeCompare(b.name));
+};
+
+export default function ServerCompareModal({ servers, sessionId, isInSession, onAdd, onClose }: ServerCompareModalProps) {
+  const [credentials, setCredentials] = useState<Record<string, CredentialField[] | null>>({});
+  const [addingId, setAddingId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setCredentials(Object.fromEntries(servers.map(server => [server.id, null])));
+
+    servers.forEach((server) => {
+      api.getCredentialRequirements(sessionId, server.id)
+        .then((data) => {
+          if (!cancelled) setCredentials(prev => ({ ...prev, [server.id]: data.credential_requirements || [] }));
+        })
+        .catch((loadError) => {
+          console.error(`Failed to load credential requirements for ${server.id}:`, loadError);
+          if (!cancelled) setCredentials(prev => ({ ...prev, [server.id]: [] }));
+        });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, servers]);
+
+  const tools = compareTools(servers);
+  const sharedCount = tools.filter(tool => tool.serverIds.length === servers.length).length;
+
+  const handleAdd = async (server: McpServer) => {
+    setAddingId(server.id);
+    try {
+      await onAdd(server);
+    } catch (error) {
+      console.error('Failed to add server to session:', error);
+    } finally {
+      setAddingId(null);
+    }
+  };
+
+  const handleCopy = async (server: McpServer) => {
+    if (await copyToClipboard(server.install_command)) {
+      setCopiedId(server.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    }
+  };
+
+  const row = (label: string, render: (server: McpServer) => React.ReactNode) => (
+    <tr className="border-b border-gray-100 align-top">
+      <th className="sticky left-0 bg-white text-left text-xs font-medium text-gray-500 py-2 pr-4 whitespace-nowrap">{label}</th>
+      {servers.map(server => (
+        <td key={server.id} className="py-2 px-3 text-xs text-gray-800">{render(server)}</td>
+      ))}
+    </tr>
+  );
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      labelledBy="server-compare-title"
+      className="bg-white rounded-xl shadow-2xl max-w-5xl w-full max-h-[90vh] flex flex-col"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between p-5 border-b border-gray-100 flex-shrink-0">
+        <div className="flex items-center space-x-3">
+          <GitCompare size={18} className="text-gray-600" />
+          <div>
+            <h2 id="server-compare-title" className="text-sm font-semibold text-black">Compare Servers</h2>
+            <p className="text-xs text-gray-600">
+              {sharedCount} shared tool{sharedCount === 1 ? '' : 's'} · {tools.length - sharedCount} that differ
+            </p>
+          </div>
+        </div>
+        <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-lg transition-colors" aria-label="Close">
+          <X size={18} className="text-gray-400" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-auto p-5">
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="border-b border-gray-200">
+              <th className="sticky left-0 bg-white" />
+              {servers.map(server => (
+                <th key={server.id} className="py-2 px-3 text-left align-top min-w-[180px]">
+                  <div className="flex items-center space-x-2">
+                    {getCategoryIcon(server.category)}
+                    <span className="text-sm font-semibold text-black">{server.name}</span>
+                  </div>
+                  <p className="text-xs font-normal text-gray-500 mt-1 line-clamp-2">{server.description}</p>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {row('Quality', server => server.metadata?.quality_score || '—')}
+            {row('Stars', server => server.metadata?.stars ? server.metadata.stars.toLocaleString() : '—')}
+            {row('Language', server => server.metadata?.language || '—')}
+            {row('License', server => server.metadata?.license || '—')}
+            {row('Credentials', (server) => {
+              const fields = credentials[server.id];
+              if (!fields) return <Loader2 size={12} className="animate-spin text-gray-400" />;
+              if (fields.length === 0) return <span className="text-gray-500">None</span>;
+              return (
+                <ul className="space-y-0.5">
+                  {fields.map(field => (
+                    <li key={field.name}>
+                      {field.label}
+                      {!field.required && <span className="text-gray-400"> (optional)</span>}
+                    </li>
+                  ))}
+                </ul>
+              );
+            })}
+            {row('Install', server => (
+              <div className="flex items-start space-x-1">
+                <code className="flex-1 break-all font-mono bg-gray-50 border border-gray-200 px-1.5 py-1 rounded">
+                  {server.install_command}
+                </code>
+                <button onClick={() => handleCopy(server)} className="p-1 text-gray-400 hover:text-black" title="Copy install command">
+                  {copiedId === server.id ? <Check size={12} /> : <Copy size={12} />}
+                </button>
+              </div>
+            ))}
+            {row('Tools', server => `${(server.tools || []).length}`)}
+            {tools.map(tool => (
+              <tr
+                key={tool.name}
+                className={`border-b border-gray-50 ${tool.serverIds.length === servers.length ? 'bg-gray-50' : ''}`}
+              >
+                <th className="sticky left-0 bg-inherit text-left text-xs font-mono font-normal text-gray-700 py-1.5 pr-4 whitespace-nowrap">
+                  {tool.name}
+                </th>
+                {servers.map(server => (
+                  <td key={server.id} className="py-1.5 px-3">
+                    {tool.serverIds.includes(server.id)
+                      ? <Check size={12} className="text-black" />
+                      : <span className="text-xs text-gray-300">—</span>}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr>
+              <th className="sticky left-0 bg-white" />
+              {servers.map(server => (
+                <td key={server.id} className="pt-4 px-3">
+                  {isInSession(server.id) ? (
+                    <span className="flex items-center justify-center space-x-1 text-xs text-gray-600 py-2">
+                      <Check size={12} />
+                      <span>In session</span>
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => handleAdd(server)}
+                      disabled={addingId !== null}
+                      className="w-full flex items-center justify-center space-x-1.5 px-3 py-2 bg-black text-white rounded-lg text-xs font-medium hover:bg-gray-800 disabled:opacity-50"
+                    >
+                      {addingId === server.id ? <Loader2 size={12} className="animate-spin" /> : <Plus size={12} />}
+                      <span>Add this one</span>
+                    </button>
+                  )}
+                </td>
+              ))}
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,43 @@
+import React from 'react';
+import { GitCompare, X } from 'lucide-react';
+import { MAX_COMPARE, MIN_COMPARE } from '@/hooks/useCompareSelection';
+import { McpServer } from '@/types';
+
+interface ServerCompareTrayProps {
+  servers: McpServer[];
+  onRemove: (serverId: string) => void;
+  onClear: () => void;
+  onCompare: () => void;
+}
+
+export default function ServerCompareTray({ servers, onRemove, onClear, onCompare }: ServerCompareTrayProps) {
+  if (servers.length === 0) return null;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl shadow-lg px-4 py-3 flex items-center space-x-3 max-w-full">
+      <div className="flex items-center space-x-1.5 min-w-0 overflow-x-auto">
+        {servers.map((server) => (
+          <span key={server.id} className="flex items-center space-x-1 text-xs bg-gray-100 text-gray-800 px-2 py-1 rounded-md whitespace-nowrap">
+            <span>{server.name}</span>
+            <button onClick={() => onRemove(server.id)} className="text-gray-400 hover:text-black" title="Remove from comparison">
+              <X size={10} />
+            </button>
+          </span>
+        ))}
+      </div>
+      <span className="text-xs text-gray-400 whitespace-nowrap">{servers.length}/{MAX_COMPARE}</span>
+      <button onClick={onClear} className="text-xs text-gray-500 hover:text-black whitespace-nowrap">
+        Clear
+      </button>
+      <button
+        onClick={onCompare}
+        disabled={servers.length < MIN_COMPARE}
+        className="flex items-center space-x-1.5 px-3 py-1.5 bg-black text-white rounded-lg text-xs font-medium hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+        title={servers.length < MIN_COMPARE ? `Pick at least ${MIN_COMPARE} servers` : 'Compare selected servers'}
+      >
+        <GitCompare size={12} />
+        <span>Compare</span>
+      </button>
+    </div>
+  );
+}
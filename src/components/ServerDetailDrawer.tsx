@@ -0,0 +1,325 @@
+import React, { useEffect, useState } from 'react';
+import MarkdownJSX from 'markdown-to-jsx';
+import {
+  X, Plus, Check, Copy, Loader2, AlertCircle, ExternalLink, Wrench, Key, Package, FileText, ChevronDown, ChevronRight, Star, Scale
+} from 'lucide-react';
+import * as api from '@/lib/api';
+import { getServerInstallCommands } from '@/lib/installMethods';
+import { copyToClipboard } from '@/lib/download';
+import { CredentialField, JsonSchema, McpServer, McpToolDefinition } from '@/types';
+import { CatalogServerDetail } from '@/types/api';
+import { getCategoryIcon } from './McpServerCard';
+
+interface ServerDetailDrawerProps {
+  server: McpServer;
+  sessionId: string;
+  isInSession: boolean;
+  onAdd: (server: McpServer) => Promise<void>;
+  onRemove?: (serverId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const schemaType = (schema: JsonSchema): string => {
+  if (schema.enum) return schema.enum.map(value => JSON.stringify(value)).join(' | ');
+  const type = Array.isArray(schema.type) ? schema.type.join(' | ') : schema.type || 'any';
+  return type === 'array' && schema.items ? `${schemaType(schema.items)}[]` : type;
+};
+
+function ToolSchema({ tool }: { tool: McpToolDefinition }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const properties = tool.inputSchema?.properties || {};
+  const required = tool.inputSchema?.required || [];
+  const names = Object.keys(properties);
+
+  return (
+    <div className="border border-gray-200 rounded-lg">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-start space-x-2 p-3 text-left hover:bg-gray-50 rounded-lg"
+      >
+        {isExpanded ? <ChevronDown size={14} className="mt-0.5 text-gray-400" /> : <ChevronRight size={14} className="mt-0.5 text-gray-400" />}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between">
+            <code className="text-xs font-mono font-medium text-gray-900">{tool.name}</code>
+            <span className="text-xs text-gray-400">{names.length} param{names.length === 1 ? '' : 's'}</span>
+          </div>
+          {tool.description && <p className="text-xs text-gray-600 mt-1">{tool.description}</p>}
+        </div>
+      </button>
+
+      {isExpanded && (
+        <div className="px-3 pb-3">
+          {names.length === 0 ? (
+            <p className="text-xs text-gray-500">This tool takes no parameters.</p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-100">
+                  <th className="py-1 pr-2 font-medium">Name</th>
+                  <th className="py-1 pr-2 font-medium">Type</th>
+                  <th className="py-1 font-medium">Description</th>
+                </tr>
+              </thead>
+              <tbody>
+                {names.map((name) => (
+                  <tr key={name} className="border-b border-gray-50 align-top">
+                    <td className="py-1.5 pr-2 font-mono text-gray-900 whitespace-nowrap">
+                      {name}
+                      {required.includes(name) && <span className="text-red-500 ml-0.5">*</span>}
+                    </td>
+                    <td className="py-1.5 pr-2 font-mono text-gray-600">{schemaType(properties[name])}</td>
+                    <td className="py-1.5 text-gray-600">{properties[name].description || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function ServerDetailDrawer({ server, sessionId, isInSession, onAdd, onRemove, onClose }: ServerDetailDrawerProps) {
+  const [detail, setDetail] = useState<CatalogServerDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [detailError, setDetailError] = useState<string | null>(null);
+  const [credentialFields, setCredentialFields] = useState<CredentialField[] | null>(null);
+  const [showReadme, setShowReadme] = useState(false);
+  const [copiedMethod, setCopiedMethod] = useState<string | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsLoading(true);
+    setDetail(null);
+    setDetailError(null);
+    setShowReadme(false);
+
+    api.getCatalogServer(server.id, { signal: controller.signal })
+      .then(setDetail)
+      .catch((loadError) => {
+        if (api.isAbortError(loadError)) return;
+        setDetailError(loadError instanceof Error ? loadError.message : String(loadError));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [server.id]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setCredentialFields(null);
+    api.getCredentialRequirements(sessionId, server.id)
+      .then((data) => {
+        if (!cancelled) setCredentialFields(data.credential_requirements || []);
+      })
+      .catch((loadError) => {
+        console.error('Failed to load credential requirements:', loadError);
+        if (!cancelled) setCredentialFields([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, server.id]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const info = detail || server;
+  // Without the catalog detail we still know the tool names
+  const tools: McpToolDefinition[] = detail?.tool_definitions || info.tools.map(name => ({ name }));
+  const installCommands = getServerInstallCommands(info);
+
+  const handleCopy = async (id: string, command: string) => {
+    if (await copyToClipboard(command)) {
+      setCopiedMethod(id);
+      setTimeout(() => setCopiedMethod(null), 2000);
+    }
+  };
+
+  const handleToggleSession = async () => {
+    setIsUpdating(true);
+    try {
+      if (isInSession) {
+        await onRemove?.(server.id);
+      } else {
+        await onAdd(info);
+      }
+    } catch (error) {
+      console.error('Failed to update session:', error);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black bg-opacity-30" onClick={onClose} />
+
+      <aside className="relative w-full max-w-xl h-full bg-white shadow-2xl flex flex-col">
+        {/* Header */}
+        <div className="flex items-start justify-between p-5 border-b border-gray-100 flex-shrink-0">
+          <div className="flex items-start space-x-3 min-w-0">
+            <div className="p-2 bg-gray-100 rounded-lg text-gray-700">{getCategoryIcon(info.category)}</div>
+            <div className="min-w-0">
+              <h2 className="text-base font-semibold text-black truncate">{info.name}</h2>
+              <p className="text-xs text-gray-500 font-mono truncate">{info.id}</p>
+              <div className="flex flex-wrap items-center gap-3 mt-2 text-xs text-gray-600">
+                {info.metadata?.stars && (
+                  <span className="flex items-center space-x-1">
+                    <Star size={11} />
+                    <span>{info.metadata.stars.toLocaleString()}</span>
+                  </span>
+                )}
+                {info.metadata?.language && <span>{info.metadata.language}</span>}
+                {info.metadata?.license && (
+                  <span className="flex items-center space-x-1">
+                    <Scale size={11} />
+                    <span>{info.metadata.license}</span>
+                  </span>
+                )}
+                {info.metadata?.source && (
+                  <a
+                    href={info.metadata.source}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center space-x-1 text-gray-700 hover:text-black underline"
+                  >
+                    <ExternalLink size={11} />
+                    <span>Source</span>
+                  </a>
+                )}
+              </div>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-lg transition-colors">
+            <X size={18} className="text-gray-400" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-6">
+          <p className="text-sm text-gray-700">{info.description}</p>
+
+          {detailError && (
+            <div className="flex items-center space-x-1 text-amber-700 text-xs bg-amber-50 border border-amber-200 rounded-lg p-2">
+              <AlertCircle size={12} />
+              <span>Full details are unavailable ({detailError}); showing what the catalog listed.</span>
+            </div>
+          )}
+
+          {/* Tools */}
+          <section>
+            <h3 className="flex items-center space-x-2 text-xs font-medium text-gray-700 uppercase tracking-wide mb-2">
+              <Wrench size={12} />
+              <span>Tools ({tools.length})</span>
+              {isLoading && <Loader2 size={12} className="animate-spin text-gray-400" />}
+            </h3>
+            {tools.length === 0 ? (
+              <p className="text-xs text-gray-500">This server doesn&apos;t list any tools.</p>
+            ) : (
+              <div className="space-y-2">
+                {tools.map(tool => <ToolSchema key={tool.name} tool={tool} />)}
+              </div>
+            )}
+          </section>
+
+          {/* Credentials */}
+          <section>
+            <h3 className="flex items-center space-x-2 text-xs font-medium text-gray-700 uppercase tracking-wide mb-2">
+              <Key size={12} />
+              <span>Credentials</span>
+            </h3>
+            {credentialFields === null ? (
+              <Loader2 size={14} className="animate-spin text-gray-400" />
+            ) : credentialFields.length === 0 ? (
+              <p className="text-xs text-gray-500">No credentials needed.</p>
+            ) : (
+              <ul className="space-y-2">
+                {credentialFields.map((field) => (
+                  <li key={field.name} className="text-xs">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-gray-900">{field.label}</span>
+                      <code className="text-gray-500 font-mono">{field.name}</code>
+                      {!field.required && <span className="text-gray-400">optional</span>}
+                    </div>
+                    {field.help && <p className="text-gray-500 mt-0.5">{field.help}</p>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {/* Install alternatives */}
+          <section>
+            <h3 className="flex items-center space-x-2 text-xs font-medium text-gray-700 uppercase tracking-wide mb-2">
+              <Package size={12} />
+              <span>Install</span>
+            </h3>
+            {installCommands.length === 0 ? (
+              <p className="text-xs text-gray-500">The catalog lists no install command for this server.</p>
+            ) : (
+              <div className="space-y-2">
+                {installCommands.map((method) => (
+                  <div key={method.id} className="flex items-center space-x-2">
+                    <span className="w-28 flex-shrink-0 text-xs text-gray-600">{method.title}</span>
+                    <code className="flex-1 min-w-0 truncate text-xs bg-gray-50 border border-gray-200 px-2 py-1.5 rounded font-mono text-gray-800">
+                      {method.command}
+                    </code>
+                    <button
+                      onClick={() => handleCopy(method.id, method.command)}
+                      className="p-1.5 text-gray-400 hover:text-black hover:bg-gray-100 rounded-lg"
+                      title="Copy command"
+                    >
+                      {copiedMethod === method.id ? <Check size={12} /> : <Copy size={12} />}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          {/* README */}
+          {detail?.readme && (
+            <section>
+              <button
+                onClick={() => setShowReadme(!showReadme)}
+                className="flex items-center space-x-2 text-xs font-medium text-gray-700 uppercase tracking-wide hover:text-black"
+              >
+                <FileText size={12} />
+                <span>README</span>
+                {showReadme ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+              </button>
+              {showReadme && (
+                <div className="prose prose-sm max-w-none mt-3 text-sm text-gray-800 border-t border-gray-100 pt-3">
+                  <MarkdownJSX>{detail.readme}</MarkdownJSX>
+                </div>
+              )}
+            </section>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-5 border-t border-gray-100 flex-shrink-0">
+          <button
+            onClick={handleToggleSession}
+            disabled={isUpdating || (isInSession && !onRemove)}
+            className={`w-full px-4 py-2.5 text-sm font-medium rounded-lg transition-colors disabled:opacity-50 flex items-center justify-center space-x-2 ${
+              isInSession ? 'bg-gray-100 text-gray-700 hover:bg-gray-200' : 'bg-black text-white hover:bg-gray-800'
+            }`}
+          >
+            {isUpdating ? <Loader2 size={14} className="animate-spin" /> : isInSession ? <X size={14} /> : <Plus size={14} />}
+            <span>{isInSession ? 'Remove from session' : 'Add to session'}</span>
+          </button>
+        </div>
+      </aside>
+    </div>
+  );
+}
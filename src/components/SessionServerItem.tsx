@@ -0,0 +1,69 @@
+import React from 'react';
+import Link from 'next/link';
+import { Square, RotateCw, KeyRound, Trash2, Loader2, Wrench } from 'lucide-react';
+import { buildToolLink } from '@/lib/toolLinks';
+import { ConfiguredServer } from '@/types';
+
+export type ServerAction = 'remove' | 'stop' | 'restart' | 'credentials';
+
+interface SessionServerItemProps {
+  server: ConfiguredServer;
+  // The action currently in flight for this server, if any
+  pendingAction?: ServerAction;
+  onAction: (serverId: string, action: ServerAction) => void;
+}
+
+const getStatus = (server: ConfiguredServer) => {
+  if (server.status === 'starting') return { label: 'Starting', dot: 'bg-blue-500 animate-pulse', text: 'text-blue-700' };
+  if (server.status === 'crashed') return { label: 'Crashed', dot: 'bg-red-500', text: 'text-red-700' };
+  if (server.needsCredentials) return { label: 'Needs credentials', dot: 'bg-yellow-500', text: 'text-yellow-700' };
+  if (server.isRunning === false) return { label: 'Stopped', dot: 'bg-gray-400', text: 'text-gray-500' };
+  if (server.isRunning) return { label: 'Running', dot: 'bg-green-500', text: 'text-green-700' };
+  return { label: 'Unknown', dot: 'bg-gray-300', text: 'text-gray-500' };
+};
+
+export default function SessionServerItem({ server, pendingAction, onAction }: SessionServerItemProps) {
+  const status = getStatus(server);
+  const isBusy = pendingAction !== undefined;
+
+  const actionButton = (action: ServerAction, title: string, icon: React.ReactNode) => (
+    <button
+      onClick={() => onAction(server.serverId, action)}
+      disabled={isBusy}
+      className="p-1.5 text-gray-400 hover:text-black hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      title={title}
+    >
+      {pendingAction === action ? <Loader2 size={12} className="animate-spin" /> : icon}
+    </button>
+  );
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-3 shadow-sm">
+      <div className="flex items-center justify-between">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-gray-900 truncate">{server.serverName}</p>
+          <p className="text-xs text-gray-500">Added {new Date(server.installedAt).toLocaleTimeString()}</p>
+        </div>
+        <div className={`flex items-center space-x-1.5 text-xs font-medium ${status.text}`} title={server.statusError}>
+          <div className={`w-2 h-2 rounded-full ${status.dot}`}></div>
+          <span>{status.label}</span>
+        </div>
+      </div>
+      <div className="flex items-center justify-end space-x-1 mt-2 pt-2 border-t border-gray-100">
+        {server.isRunning && (
+          <Link
+            href={buildToolLink({ serverId: server.serverId })}
+            className="p-1.5 text-gray-400 hover:text-black hover:bg-gray-100 rounded-lg transition-colors"
+            title="Open in tool workbench"
+          >
+            <Wrench size={12} />
+          </Link>
+        )}
+        {server.isRunning && actionButton('stop', 'Stop server', <Square size={12} />)}
+        {actionButton('restart', server.isRunning ? 'Restart server' : 'Start server', <RotateCw size={12} />)}
+        {actionButton('credentials', 'Re-enter credentials', <KeyRound size={12} />)}
+        {actionButton('remove', 'Remove from session', <Trash2 size={12} />)}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldAlert, Check, X, Pencil } from 'lucide-react';
+import { McpToolDefinition } from '@/types';
+import { discoverServerTools } from '@/lib/toolDiscovery';
+import { SchemaErrors, validateToolParameters } from '@/lib/jsonSchema';
+import { ApprovalDecision, ToolCallTarget, ToolEffect, classifyTool } from '@/lib/toolApproval';
+import SchemaForm from './SchemaForm';
+
+const EFFECT_NOTES: Record<ToolEffect, string> = {
+  'mutating': 'This tool may change data. Review the arguments before running it.',
+  'unknown': 'This tool may change data; its server doesn\'t say. Review the arguments before running it.',
+  'read-only': 'The assistant wants to run this tool.',
+};
+
+interface ToolApprovalCardProps {
+  sessionId: string;
+  target: ToolCallTarget;
+  onDecision: (decision: ApprovalDecision) => void;
+}
+
+export default function ToolApprovalCard({ sessionId, target, onDecision }: ToolApprovalCardProps) {
+  const [parameters, setParameters] = useState<Record<string, any>>(target.parameters);
+  const [tool, setTool] = useState<McpToolDefinition | undefined>(undefined);
+  const [isEditing, setIsEditing] = useState(false);
+  const [errors, setErrors] = useState<SchemaErrors>({});
+  const [isJsonValid, setIsJsonValid] = useState(true);
+  const [alwaysAllow, setAlwaysAllow] = useState(false);
+  const [denyReason, setDenyReason] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    discoverServerTools(sessionId, target.serverId)
+      .then((tools) => {
+        if (!cancelled) setTool(tools.find(t => t.name === target.toolName));
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, target.serverId, target.toolName]);
+
+  const approve = () => {
+    if (!isJsonValid) return;
+    const validationErrors = validateToolParameters(tool?.inputSchema, parameters);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) {
+      setIsEditing(true);
+      return;
+    }
+    onDecision({ approved: true, parameters, alwaysAllow });
+  };
+
+  return (
+    <div className="mt-4 border border-amber-200 bg-amber-50 rounded-lg p-4 space-y-3">
+      <div className="flex items-start space-x-2">
+        <ShieldAlert size={16} className="text-amber-600 mt-0.5 flex-shrink-0" />
+        <div>
+          <p className="text-sm font-medium text-gray-900">
+            Approve <code className="bg-white px-1.5 py-0.5 rounded font-mono text-xs">{target.toolName}</code> on{' '}
+            <code className="bg-white px-1.5 py-0.5 rounded font-mono text-xs">{target.serverId}</code>?
+          </p>
+          <p className="text-xs text-amber-700 mt-1">
+            {EFFECT_NOTES[classifyTool(target.toolName, tool?.annotations)]}
+          </p>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-xs font-medium text-gray-700">Arguments:</span>
+          <button
+            onClick={() => setIsEditing(!isEditing)}
+            className="flex items-center space-x-1 text-xs font-medium text-gray-500 hover:text-black transition-colors"
+          >
+            <Pencil size={12} />
+            <span>{isEditing ? 'Done editing' : 'Edit'}</span>
+          </button>
+        </div>
+        {isEditing ? (
+          <div className="bg-white rounded border border-gray-200 p-3">
+            <SchemaForm
+              schema={tool?.inputSchema}
+              value={parameters}
+              onChange={setParameters}
+              errors={errors}
+              onJsonValidityChange={setIsJsonValid}
+            />
+          </div>
+        ) : (
+          <pre className="text-xs bg-white p-3 rounded border border-gray-200 overflow-x-auto text-gray-800">
+            {JSON.stringify(parameters, null, 2)}
+          </pre>
+        )}
+      </div>
+
+      <label className="flex items-center space-x-2 text-xs text-gray-700">
+        <input
+          type="checkbox"
+          checked={alwaysAllow}
+          onChange={(e) => setAlwaysAllow(e.target.checked)}
+          className="rounded border-gray-300"
+        />
+        <span>Always allow {target.toolName} on {target.serverId} in this session</span>
+      </label>
+
+      <input
+        type="text"
+        value={denyReason}
+        onChange={(e) => setDenyReason(e.target.value)}
+        placeholder="Reason for denying (optional, shared with the assistant)"
+        className="w-full px-3 py-2 text-xs border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent bg-white"
+      />
+
+      <div className="flex justify-end space-x-2">
+        <button
+          onClick={() => onDecision({ approved: false, reason: denyReason.trim() || undefined })}
+          className="px-3 py-2 text-xs font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-100 rounded-lg transition-colors flex items-center space-x-1"
+        >
+          <X size={12} />
+          <span>Deny</span>
+        </button>
+        <button
+          onClick={approve}
+          disabled={!isJsonValid}
+          className="px-3 py-2 bg-black text-white text-xs font-medium rounded-lg hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-1"
+        >
+          <Check size={12} />
+          <span>Approve & run</span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Play, X, Loader2, ExternalLink } from 'lucide-react';
+import { McpToolDefinition } from '@/types';
+import { discoverServerTools } from '@/lib/toolDiscovery';
+import { SchemaErrors, buildDefaultValue, validateToolParameters } from '@/lib/jsonSchema';
+import { buildToolLink } from '@/lib/toolLinks';
+import SchemaForm from './SchemaForm';
+
+interface ToolLaunchPanelProps {
+  sessionId: string;
+  serverId: string;
+  serverName?: string;
+  tool: McpToolDefinition;
+  disabled?: boolean;
+  // Prefill, e.g. from a preset that failed validation, in place of the schema defaults
+  initialParameters?: Record<string, any>;
+  initialErrors?: SchemaErrors;
+  onExecute: (parameters: Record<string, any>) => void;
+  onCancel: () => void;
+}
+
+export default function ToolLaunchPanel({
+  sessionId,
+  serverId,
+  serverName,
+  tool,
+  disabled = false,
+  initialParameters,
+  initialErrors = {},
+  onExecute,
+  onCancel,
+}: ToolLaunchPanelProps) {
+  const [schema, setSchema] = useState(tool.inputSchema);
+  const [isLoadingSchema, setIsLoadingSchema] = useState(!tool.inputSchema);
+  const [parameters, setParameters] = useState<Record<string, any>>(initialParameters || buildDefaultValue(tool.inputSchema) || {});
+  const [errors, setErrors] = useState<SchemaErrors>(initialErrors);
+  const [isJsonValid, setIsJsonValid] = useState(true);
+
+  // The chat card may only carry tool names; fall back to the server's discovered schema
+  useEffect(() => {
+    if (tool.inputSchema) return;
+    let cancelled = false;
+
+    discoverServerTools(sessionId, serverId)
+      .then((tools) => {
+        const discovered = tools.find(t => t.name === tool.name)?.inputSchema;
+        if (cancelled || !discovered) return;
+        setSchema(discovered);
+        if (!initialParameters) setParameters(buildDefaultValue(discovered) || {});
+      })
+      .catch((error) => console.warn(`Could not load schema for ${tool.name}:`, error))
+      .finally(() => {
+        if (!cancelled) setIsLoadingSchema(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, serverId, tool.name, tool.inputSchema]);
+
+  const handleChange = (next: Record<string, any>) => {
+    setParameters(next);
+    if (Object.keys(errors).length > 0) {
+      setErrors(validateToolParameters(schema, next));
+    }
+  };
+
+  const handleExecute = () => {
+    if (!isJsonValid) return;
+    const validationErrors = validateToolParameters(schema, parameters);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+    onExecute(parameters);
+  };
+
+  return (
+    <div className="mt-3 border border-gray-200 rounded-lg bg-white p-4 space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h5 className="text-sm font-semibold text-gray-900">{tool.name}</h5>
+          {tool.description && <p className="text-xs text-gray-600 mt-0.5">{tool.description}</p>}
+        </div>
+        <button
+          onClick={onCancel}
+          className="p-1 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+          title="Close"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      {isLoadingSchema ? (
+        <div className="flex items-center text-xs text-gray-600">
+          <Loader2 size={14} className="animate-spin text-gray-400" />
+          <span className="ml-2">Loading parameters...</span>
+        </div>
+      ) : (
+        <SchemaForm
+          schema={schema}
+          value={parameters}
+          onChange={handleChange}
+          errors={errors}
+          disabled={disabled}
+          onJsonValidityChange={setIsJsonValid}
+        />
+      )}
+
+      <div>
+        <span className="text-xs font-medium text-gray-700 block mb-2">Call preview:</span>
+        <pre className="text-xs bg-gray-50 p-3 rounded border border-gray-200 overflow-x-auto text-gray-800">
+          {`${serverName || serverId} → ${tool.name}(${JSON.stringify(parameters, null, 2)})`}
+        </pre>
+      </div>
+
+      <div className="flex items-center justify-end space-x-2">
+        <Link
+          href={buildToolLink({ serverId, toolName: tool.name, parameters })}
+          className="mr-auto flex items-center space-x-1 text-xs text-gray-500 hover:text-black"
+          title="Open this tool with these parameters in the tool workbench"
+        >
+          <ExternalLink size={12} />
+          <span>Open in workbench</span>
+        </Link>
+        <button
+          onClick={onCancel}
+          className="px-3 py-2 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleExecute}
+          disabled={disabled || isLoadingSchema || !isJsonValid}
+          className="px-3 py-2 bg-black text-white text-xs font-medium rounded-lg hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-1"
+        >
+          <Play size={12} />
+          <span>Execute</span>
+        </button>
+      </div>
+    </div>
+  );
+}
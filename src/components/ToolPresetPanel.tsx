@@ -0,0 +1,179 @@
+import React, { useRef, useState } from 'react';
+import { Bookmark, Play, Trash2, Download, Upload, AlertCircle } from 'lucide-react';
+import * as toolPresets from '@/lib/toolPresets';
+import { downloadFile } from '@/lib/download';
+import { ToolPreset } from '@/types';
+
+interface ToolPresetPanelProps {
+  serverId: string;
+  // This server's presets
+  presets: ToolPreset[];
+  // The invocation currently in the form, which "Save" stores
+  toolName: string;
+  parameters: Record<string, any>;
+  canSave: boolean;
+  disabled?: boolean;
+  onLoad: (preset: ToolPreset) => void;
+  onRun: (preset: ToolPreset) => void;
+}
+
+export default function ToolPresetPanel({
+  serverId,
+  presets,
+  toolName,
+  parameters,
+  canSave,
+  disabled = false,
+  onLoad,
+  onRun,
+}: ToolPresetPanelProps) {
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const report = (nextMessage: string | null, nextError: string | null = null) => {
+    setMessage(nextMessage);
+    setError(nextError);
+  };
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed || !toolName) return;
+    // Saving under an existing name for the same tool updates that preset
+    const existing = presets.find(preset => preset.name === trimmed && preset.tool_name === toolName);
+    try {
+      await toolPresets.savePreset({ id: existing?.id, name: trimmed, server_id: serverId, tool_name: toolName, parameters });
+      setName('');
+      report(existing ? `Updated "${trimmed}"` : `Saved "${trimmed}"`);
+    } catch (saveError) {
+      report(null, saveError instanceof Error ? saveError.message : String(saveError));
+    }
+  };
+
+  const handleDelete = async (preset: ToolPreset) => {
+    if (!window.confirm(`Delete the preset "${preset.name}"?`)) return;
+    try {
+      await toolPresets.deletePreset(preset.id);
+    } catch (deleteError) {
+      console.error('Failed to delete preset:', deleteError);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const saved = await toolPresets.importPresets(toolPresets.parsePresetExport(await file.text()));
+      const elsewhere = saved.filter(preset => preset.server_id !== serverId).length;
+      report(`Imported ${saved.length} preset${saved.length === 1 ? '' : 's'}${elsewhere ? ` (${elsewhere} for other servers)` : ''}`);
+    } catch (importError) {
+      report(null, importError instanceof Error ? importError.message : String(importError));
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center space-x-1.5 text-sm font-medium text-gray-700">
+          <Bookmark size={14} />
+          <span>Presets</span>
+        </h3>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center space-x-1 px-2 py-1 text-xs text-gray-500 hover:text-black hover:bg-gray-100 rounded-lg"
+            title="Import presets from a JSON file"
+          >
+            <Upload size={12} />
+            <span>Import</span>
+          </button>
+          <button
+            onClick={() => downloadFile(`${serverId}-presets.json`, toolPresets.exportPresets(presets), 'application/json')}
+            disabled={presets.length === 0}
+            className="flex items-center space-x-1 px-2 py-1 text-xs text-gray-500 hover:text-black hover:bg-gray-100 rounded-lg disabled:opacity-40 disabled:cursor-not-allowed"
+            title="Export this server's presets as JSON"
+          >
+            <Download size={12} />
+            <span>Export</span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) handleImport(file);
+            }}
+          />
+        </div>
+      </div>
+
+      {presets.length === 0 ? (
+        <p className="text-xs text-gray-500">No presets for this server yet. Configure a tool below and save it by name.</p>
+      ) : (
+        <ul className="space-y-1">
+          {presets.map((preset) => (
+            <li key={preset.id} className="flex items-center justify-between bg-gray-50 rounded-lg px-2 py-1.5">
+              <button
+                onClick={() => onLoad(preset)}
+                disabled={disabled}
+                className="min-w-0 text-left disabled:opacity-50"
+                title="Load into the form"
+              >
+                <span className="text-sm text-gray-900 truncate block">{preset.name}</span>
+                <code className="text-xs text-gray-500 font-mono">{preset.tool_name}</code>
+              </button>
+              <div className="flex items-center space-x-0.5 flex-shrink-0">
+                <button
+                  onClick={() => onRun(preset)}
+                  disabled={disabled}
+                  className="p-1.5 text-gray-400 hover:text-black hover:bg-gray-100 rounded-lg disabled:opacity-50"
+                  title="Run now"
+                >
+                  <Play size={12} />
+                </button>
+                <button
+                  onClick={() => handleDelete(preset)}
+                  className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg"
+                  title="Delete preset"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {toolName && (
+        <div className="flex space-x-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && canSave && handleSave()}
+            placeholder={`Save ${toolName} with these parameters as...`}
+            aria-label="Preset name"
+            className="flex-1 min-w-0 px-3 py-1.5 text-xs border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!canSave || !name.trim()}
+            className="px-3 py-1.5 text-xs font-medium bg-black text-white rounded-lg hover:bg-gray-800 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      )}
+
+      {message && <p role="status" className="text-xs text-gray-600">{message}</p>}
+      {error && (
+        <div role="alert" className="flex items-center space-x-1 text-red-600 text-xs">
+          <AlertCircle size={12} />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
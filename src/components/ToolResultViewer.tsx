@@ -0,0 +1,210 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ChevronDown, ChevronRight, Copy, Check, Download, FileText } from 'lucide-react';
+import MarkdownJSX from 'markdown-to-jsx';
+import { ResultBlock, compareCells, formatCell, toCsv, toResultBlocks } from '@/lib/toolResult';
+import { copyToClipboard, downloadFile } from '@/lib/download';
+
+interface ToolResultViewerProps {
+  value: any;
+  // Used to name downloaded files
+  fileName?: string;
+}
+
+const markdownOptions = {
+  overrides: {
+    p: { props: { className: 'mb-2 last:mb-0 leading-relaxed text-gray-800' } },
+    ul: { props: { className: 'mb-2 last:mb-0 space-y-1 pl-4 list-disc text-gray-800' } },
+    ol: { props: { className: 'mb-2 last:mb-0 space-y-1 pl-4 list-decimal text-gray-800' } },
+    code: { props: { className: 'bg-gray-100 px-1.5 py-0.5 rounded font-mono text-xs text-gray-900' } },
+    pre: { props: { className: 'bg-gray-100 p-3 rounded overflow-x-auto mb-2 last:mb-0 text-xs' } },
+    a: { props: { className: 'text-black underline hover:text-gray-700', target: '_blank', rel: 'noopener noreferrer' } },
+  },
+};
+
+function ResultTable({ columns, rows }: { columns: string[]; rows: Record<string, any>[] }) {
+  const [sort, setSort] = useState<{ column: string; direction: 'asc' | 'desc' } | null>(null);
+
+  const sortedRows = useMemo(() => {
+    if (!sort) return rows;
+    const direction = sort.direction === 'asc' ? 1 : -1;
+    return [...rows].sort((a, b) => compareCells(a[sort.column], b[sort.column]) * direction);
+  }, [rows, sort]);
+
+  const toggleSort = (column: string) => {
+    setSort(prev => {
+      if (prev?.column !== column) return { column, direction: 'asc' };
+      return prev.direction === 'asc' ? { column, direction: 'desc' } : null;
+    });
+  };
+
+  return (
+    <div className="overflow-x-auto border border-gray-200 rounded bg-white max-h-96">
+      <table className="min-w-full text-xs">
+        <thead className="bg-gray-50 sticky top-0">
+          <tr>
+            {columns.map((column) => (
+              <th
+                key={column}
+                onClick={() => toggleSort(column)}
+                className="px-3 py-2 text-left font-medium text-gray-700 border-b border-gray-200 cursor-pointer select-none whitespace-nowrap hover:bg-gray-100"
+              >
+                <span className="inline-flex items-center space-x-1">
+                  <span>{column}</span>
+                  {sort?.column === column && (sort.direction === 'asc' ? <ArrowUp size={10} /> : <ArrowDown size={10} />)}
+                </span>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sortedRows.map((row, index) => (
+            <tr key={index} className="border-b border-gray-100 last:border-0 hover:bg-gray-50">
+              {columns.map((column) => (
+                <td key={column} className="px-3 py-2 text-gray-800 align-top max-w-xs truncate" title={formatCell(row[column])}>
+                  {formatCell(row[column])}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="px-3 py-1.5 text-xs text-gray-500 bg-gray-50 border-t border-gray-200">{rows.length} row(s)</div>
+    </div>
+  );
+}
+
+function JsonTree({ value, name, depth = 0 }: { value: any; name?: string; depth?: number }) {
+  const [isOpen, setIsOpen] = useState(depth < 2);
+  const isContainer = typeof value === 'object' && value !== null;
+  const label = name !== undefined && <span className="text-gray-600">{name}: </span>;
+
+  if (!isContainer) {
+    const colour = typeof value === 'string' ? 'text-green-700' : typeof value === 'number' ? 'text-blue-700' : 'text-purple-700';
+    return (
+      <div className="pl-4">
+        {label}
+        <span className={colour}>{JSON.stringify(value)}</span>
+      </div>
+    );
+  }
+
+  const entries: [string, any][] = Array.isArray(value)
+    ? value.map((item, index) => [String(index), item])
+    : Object.entries(value);
+  const summary = Array.isArray(value) ? `[${entries.length}]` : `{${entries.length}}`;
+
+  return (
+    <div className={depth > 0 ? 'pl-4' : ''}>
+      <button onClick={() => setIsOpen(!isOpen)} className="inline-flex items-center hover:text-black">
+        {isOpen ? <ChevronDown size={10} className="text-gray-400" /> : <ChevronRight size={10} className="text-gray-400" />}
+        <span className="ml-0.5">{label}<span className="text-gray-400">{summary}</span></span>
+      </button>
+      {isOpen && entries.map(([key, item]) => <JsonTree key={key} name={key} value={item} depth={depth + 1} />)}
+    </div>
+  );
+}
+
+function ResultBlockView({ block }: { block: ResultBlock }) {
+  switch (block.kind) {
+    case 'text':
+      return (
+        <div className="text-sm bg-white p-3 rounded border border-gray-200">
+          <MarkdownJSX options={markdownOptions}>{block.text}</MarkdownJSX>
+        </div>
+      );
+    case 'image':
+      return <img src={block.src} alt="Tool result" className="max-w-full max-h-96 rounded border border-gray-200 bg-white" />;
+    case 'resource':
+      return (
+        <div className="bg-white rounded border border-gray-200 p-3 space-y-2">
+          <div className="flex items-center space-x-2 text-xs text-gray-700">
+            <FileText size={12} className="text-gray-500" />
+            <code className="font-mono break-all">{block.uri}</code>
+            {block.mimeType && <span className="text-gray-400">{block.mimeType}</span>}
+          </div>
+          {block.src && <img src={block.src} alt={block.uri} className="max-w-full max-h-96 rounded" />}
+          {block.text !== undefined && (
+            <pre className="text-xs bg-gray-50 p-2 rounded overflow-x-auto text-gray-800 whitespace-pre-wrap">{block.text}</pre>
+          )}
+        </div>
+      );
+    case 'table':
+      return <ResultTable columns={block.columns} rows={block.rows} />;
+    case 'json':
+      return (
+        <div className="text-xs font-mono bg-white p-3 rounded border border-gray-200 overflow-x-auto">
+          <JsonTree value={block.value} />
+        </div>
+      );
+  }
+}
+
+/**
+ * Renders a tool result by content type: MCP text blocks as markdown,
+ * images inline, arrays of similar objects as a sortable table and
+ * everything else as a collapsible JSON tree.
+ */
+export default function ToolResultViewer({ value, fileName = 'tool-result' }: ToolResultViewerProps) {
+  const [view, setView] = useState<'rich' | 'tree'>('rich');
+  const [copied, setCopied] = useState(false);
+  const blocks = useMemo(() => toResultBlocks(value), [value]);
+  const table = blocks.find((block): block is Extract<ResultBlock, { kind: 'table' }> => block.kind === 'table');
+  const json = useMemo(() => (typeof value === 'string' ? value : JSON.stringify(value, null, 2)), [value]);
+
+  const handleCopy = async () => {
+    if (await copyToClipboard(json)) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  const toolbarButton = 'flex items-center space-x-1 px-2 py-1 text-xs font-medium text-gray-600 hover:text-black hover:bg-gray-100 rounded transition-colors';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex bg-gray-100 rounded p-0.5">
+          {(['rich', 'tree'] as const).map((mode) => (
+            <button
+              key={mode}
+              onClick={() => setView(mode)}
+              className={`px-2 py-0.5 text-xs font-medium rounded transition-colors ${view === mode ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-900'}`}
+            >
+              {mode === 'rich' ? 'Formatted' : 'JSON tree'}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center">
+          <button onClick={handleCopy} className={toolbarButton} title="Copy as JSON">
+            {copied ? <Check size={12} /> : <Copy size={12} />}
+            <span>{copied ? 'Copied' : 'Copy'}</span>
+          </button>
+          <button onClick={() => downloadFile(`${fileName}.json`, json, 'application/json')} className={toolbarButton} title="Download as JSON">
+            <Download size={12} />
+            <span>JSON</span>
+          </button>
+          {table && (
+            <button
+              onClick={() => downloadFile(`${fileName}.csv`, toCsv(table.columns, table.rows), 'text/csv')}
+              className={toolbarButton}
+              title="Download table as CSV"
+            >
+              <Download size={12} />
+              <span>CSV</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {view === 'tree' ? (
+        <div className="text-xs font-mono bg-white p-3 rounded border border-gray-200 overflow-x-auto max-h-96">
+          <JsonTree value={value} />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {blocks.map((block, index) => <ResultBlockView key={index} block={block} />)}
+        </div>
+      )}
+    </div>
+  );
+}
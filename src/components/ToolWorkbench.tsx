@@ -0,0 +1,67 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { Loader2, MessageSquare, LayoutGrid, Workflow } from 'lucide-react';
+import { useSessionId } from '@/hooks/useSessionId';
+import { ToolSelection } from '@/lib/toolLinks';
+import McpToolExecutor from './McpToolExecutor';
+import ExecutionHistory from './ExecutionHistory';
+
+interface ToolWorkbenchProps {
+  initialSelection?: ToolSelection;
+}
+
+export default function ToolWorkbench({ initialSelection }: ToolWorkbenchProps) {
+  const sessionId = useSessionId();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 shadow-sm">
+        <div className="max-w-4xl mx-auto px-6 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-lg font-semibold text-gray-900">Tool Workbench</h1>
+            <p className="text-xs text-gray-600">Run tools from the servers in your current session</p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <Link
+              href="/workflows"
+              className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-all duration-200 text-sm font-medium"
+            >
+              <Workflow size={16} />
+              <span>Workflows</span>
+            </Link>
+            <Link
+              href="/catalog"
+              className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-all duration-200 text-sm font-medium"
+            >
+              <LayoutGrid size={16} />
+              <span>Catalog</span>
+            </Link>
+            <Link
+              href="/"
+              className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-all duration-200 text-sm font-medium"
+            >
+              <MessageSquare size={16} />
+              <span>Back to chat</span>
+            </Link>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-6 py-6">
+        {sessionId ? (
+          <div className="space-y-6">
+            <McpToolExecutor sessionId={sessionId} initialSelection={initialSelection} />
+            <ExecutionHistory sessionId={sessionId} />
+          </div>
+        ) : (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 size={24} className="animate-spin text-gray-400" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
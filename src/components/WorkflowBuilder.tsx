@@ -0,0 +1,308 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { Loader2, MessageSquare, Wrench, Plus, Play, Square, Save, Trash2, Workflow as WorkflowIcon } from 'lucide-react';
+import * as api from '@/lib/api';
+import * as workflows from '@/lib/workflows';
+import { WorkflowStepRun } from '@/lib/workflows';
+import { useSessionId } from '@/hooks/useSessionId';
+import WorkflowStepEditor from './WorkflowStepEditor';
+import { ConfiguredServer, Workflow, WorkflowStep } from '@/types';
+
+interface Draft {
+  // Set once the draft has been saved
+  id?: string;
+  name: string;
+  steps: WorkflowStep[];
+}
+
+const emptyDraft = (): Draft => ({ name: '', steps: [workflows.createStep()] });
+
+export default function WorkflowBuilder() {
+  const sessionId = useSessionId();
+  const [servers, setServers] = useState<ConfiguredServer[]>([]);
+  const [saved, setSaved] = useState<Workflow[]>([]);
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  const [invalidStepIds, setInvalidStepIds] = useState<string[]>([]);
+  const [runs, setRuns] = useState<WorkflowStepRun[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    api.getConfiguredServers(sessionId)
+      .then(data => setServers(data.servers || []))
+      .catch(loadError => console.error('Failed to load configured servers:', loadError));
+  }, [sessionId]);
+
+  useEffect(() => {
+    workflows.listWorkflows()
+      .then(setSaved)
+      .catch(loadError => console.error('Failed to load workflows:', loadError));
+  }, []);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const editDraft = (next: Draft) => {
+    setDraft(next);
+    // Results no longer match the steps once they change
+    setRuns([]);
+  };
+
+  const updateStep = (index: number, step: WorkflowStep) => {
+    editDraft({ ...draft, steps: draft.steps.map((existing, i) => (i === index ? step : existing)) });
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    editDraft({ ...draft, steps: workflows.moveStep(draft.steps, index, index + offset) });
+  };
+
+  const removeStep = (index: number) => {
+    const removed = draft.steps[index];
+    setInvalidStepIds(prev => prev.filter(id => id !== removed.id));
+    editDraft({ ...draft, steps: workflows.removeStep(draft.steps, index) });
+  };
+
+  const setStepValidity = (stepId: string, isValid: boolean) => {
+    setInvalidStepIds(prev => {
+      const without = prev.filter(id => id !== stepId);
+      return isValid ? without : [...without, stepId];
+    });
+  };
+
+  const openWorkflow = (workflow: Workflow) => {
+    setInvalidStepIds([]);
+    setError(null);
+    editDraft({ id: workflow.id, name: workflow.name, steps: workflow.steps });
+  };
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) {
+      setError('Give the workflow a name to save it');
+      return;
+    }
+    try {
+      const workflow = await workflows.saveWorkflow(draft);
+      setDraft({ ...draft, id: workflow.id });
+      setSaved(prev => [...prev.filter(w => w.id !== workflow.id), workflow].sort((a, b) => a.name.localeCompare(b.name)));
+      setError(null);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+    }
+  };
+
+  const handleDelete = async (workflow: Workflow) => {
+    if (!window.confirm(`Delete the workflow "${workflow.name}"?`)) return;
+    try {
+      await workflows.deleteWorkflow(workflow.id);
+      setSaved(prev => prev.filter(w => w.id !== workflow.id));
+      if (draft.id === workflow.id) setDraft({ ...draft, id: undefined });
+    } catch (deleteError) {
+      console.error('Failed to delete workflow:', deleteError);
+    }
+  };
+
+  const incompleteStep = draft.steps.findIndex(step => !step.server_id || !step.tool_name);
+  const referenceProblem = workflows.findReferenceProblem(draft.steps);
+  const canRun = !!sessionId && draft.steps.length > 0 && incompleteStep === -1 && invalidStepIds.length === 0 && !referenceProblem;
+
+  const handleRun = async () => {
+    if (!canRun) return;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRunning(true);
+    setError(null);
+    try {
+      await workflows.runWorkflow(sessionId, draft.steps, { signal: controller.signal, onUpdate: setRuns });
+    } catch (runError) {
+      setError(runError instanceof Error ? runError.message : String(runError));
+    } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const stopRun = () => {
+    if (!abortControllerRef.current) return;
+    abortControllerRef.current.abort();
+    abortControllerRef.current = null;
+    api.cancelSessionStream(sessionId);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 shadow-sm">
+        <div className="max-w-5xl mx-auto px-6 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-lg font-semibold text-gray-900">Workflows</h1>
+            <p className="text-xs text-gray-600">Chain tool calls, passing each step&apos;s output to the next</p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <Link
+              href="/tools"
+              className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-all duration-200 text-sm font-medium"
+            >
+              <Wrench size={16} />
+              <span>Tools</span>
+            </Link>
+            <Link
+              href="/"
+              className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-all duration-200 text-sm font-medium"
+            >
+              <MessageSquare size={16} />
+              <span>Back to chat</span>
+            </Link>
+          </div>
+        </div>
+      </div>
+
+      {!sessionId ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 size={24} className="animate-spin text-gray-400" />
+        </div>
+      ) : (
+        <div className="max-w-5xl mx-auto px-6 py-6 flex space-x-6">
+          {/* Saved workflows */}
+          <div className="w-56 flex-shrink-0 space-y-2">
+            <button
+              onClick={() => {
+                setInvalidStepIds([]);
+                setError(null);
+                editDraft(emptyDraft());
+              }}
+              disabled={isRunning}
+              className="w-full flex items-center justify-center space-x-1 px-3 py-2 text-sm font-medium bg-black text-white rounded-lg hover:bg-gray-800 disabled:opacity-50"
+            >
+              <Plus size={14} />
+              <span>New workflow</span>
+            </button>
+            <h2 className="text-xs font-medium text-gray-700 uppercase tracking-wide pt-2">Saved</h2>
+            {saved.length === 0 ? (
+              <p className="text-xs text-gray-400">Saved workflows show up here.</p>
+            ) : (
+              saved.map(workflow => (
+                <div
+                  key={workflow.id}
+                  className={`flex items-center justify-between rounded-lg px-2 py-1.5 ${
+                    draft.id === workflow.id ? 'bg-gray-200' : 'hover:bg-gray-100'
+                  }`}
+                >
+                  <button
+                    onClick={() => openWorkflow(workflow)}
+                    disabled={isRunning}
+                    className="min-w-0 text-left disabled:opacity-50"
+                  >
+                    <span className="text-sm text-gray-900 truncate block">{workflow.name}</span>
+                    <span className="text-xs text-gray-500">
+                      {workflow.steps.length} step{workflow.steps.length === 1 ? '' : 's'}
+                    </span>
+                  </button>
+                  <button
+                    onClick={() => handleDelete(workflow)}
+                    disabled={isRunning}
+                    className="p-1 text-gray-400 hover:text-red-600 rounded disabled:opacity-50"
+                    title="Delete workflow"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 min-w-0 p-6 bg-white rounded-xl border border-gray-200 space-y-4">
+            <div className="flex items-center space-x-2">
+              <WorkflowIcon size={18} className="text-gray-600 flex-shrink-0" />
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Workflow name"
+                aria-label="Workflow name"
+                disabled={isRunning}
+                className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
+              />
+              <button
+                onClick={handleSave}
+                disabled={isRunning || invalidStepIds.length > 0}
+                className="flex items-center space-x-1 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg disabled:opacity-50"
+              >
+                <Save size={14} />
+                <span>{draft.id ? 'Save' : 'Save as new'}</span>
+              </button>
+            </div>
+
+            {servers.length === 0 && (
+              <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">
+                No servers are configured in this session. Add some from the chat or the catalog to build a workflow.
+              </p>
+            )}
+
+            {draft.steps.map((step, index) => (
+              <WorkflowStepEditor
+                key={step.id}
+                sessionId={sessionId}
+                index={index}
+                step={step}
+                servers={servers}
+                run={runs[index]}
+                isFirst={index === 0}
+                isLast={index === draft.steps.length - 1}
+                disabled={isRunning}
+                onChange={(next) => updateStep(index, next)}
+                onJsonValidityChange={(isValid) => setStepValidity(step.id, isValid)}
+                onMove={(offset) => moveStep(index, offset)}
+                onRemove={() => removeStep(index)}
+              />
+            ))}
+
+            <button
+              onClick={() => editDraft({ ...draft, steps: [...draft.steps, workflows.createStep()] })}
+              disabled={isRunning}
+              className="w-full flex items-center justify-center space-x-1 py-2 text-sm text-gray-600 border border-dashed border-gray-300 rounded-lg hover:border-gray-400 hover:text-black disabled:opacity-50"
+            >
+              <Plus size={14} />
+              <span>Add step</span>
+            </button>
+
+            {referenceProblem && (
+              <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">{referenceProblem}</p>
+            )}
+
+            {error && (
+              <div role="alert" className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+            )}
+
+            {isRunning ? (
+              <button
+                onClick={stopRun}
+                className="w-full flex items-center justify-center space-x-2 bg-white text-gray-900 border border-gray-300 py-2 px-4 rounded-lg hover:bg-gray-100 transition-colors"
+              >
+                <Loader2 size={16} className="animate-spin" />
+                <span>Running...</span>
+                <span className="flex items-center space-x-1 text-gray-500">
+                  <Square size={12} className="fill-current" />
+                  <span>Stop</span>
+                </span>
+              </button>
+            ) : (
+              <button
+                onClick={handleRun}
+                disabled={!canRun}
+                title={incompleteStep !== -1 ? `Choose a server and tool for step ${incompleteStep + 1}` : undefined}
+                className="w-full flex items-center justify-center space-x-2 bg-black text-white py-2 px-4 rounded-lg hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <Play size={16} />
+                <span>Run workflow</span>
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowUp, ArrowDown, Trash2, Loader2, CheckCircle, XCircle, CircleDashed, SkipForward } from 'lucide-react';
+import { discoverServerTools } from '@/lib/toolDiscovery';
+import { buildDefaultValue } from '@/lib/jsonSchema';
+import { WorkflowStepRun } from '@/lib/workflows';
+import ToolResultViewer from './ToolResultViewer';
+import { ConfiguredServer, McpToolDefinition, WorkflowFailurePolicy, WorkflowStep } from '@/types';
+
+interface WorkflowStepEditorProps {
+  sessionId: string;
+  index: number;
+  step: WorkflowStep;
+  servers: ConfiguredServer[];
+  run?: WorkflowStepRun;
+  isFirst: boolean;
+  isLast: boolean;
+  disabled?: boolean;
+  onChange: (step: WorkflowStep) => void;
+  onJsonValidityChange: (isValid: boolean) => void;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+}
+
+const STATUS_ICONS = {
+  pending: <CircleDashed size={16} className="text-gray-300" />,
+  running: <Loader2 size={16} className="animate-spin text-gray-500" />,
+  success: <CheckCircle size={16} className="text-green-600" />,
+  failed: <XCircle size={16} className="text-red-600" />,
+  skipped: <SkipForward size={16} className="text-gray-400" />,
+};
+
+const serialize = (parameters: Record<string, any>) => JSON.stringify(parameters, null, 2);
+
+export default function WorkflowStepEditor({
+  sessionId,
+  index,
+  step,
+  servers,
+  run,
+  isFirst,
+  isLast,
+  disabled = false,
+  onChange,
+  onJsonValidityChange,
+  onMove,
+  onRemove,
+}: WorkflowStepEditorProps) {
+  const [tools, setTools] = useState<McpToolDefinition[]>([]);
+  const [isLoadingTools, setIsLoadingTools] = useState(false);
+  const [toolsError, setToolsError] = useState<string | null>(null);
+  const [text, setText] = useState(serialize(step.parameters));
+  const [jsonError, setJsonError] = useState<string | null>(null);
+  const lastEmitted = useRef(step.parameters);
+
+  useEffect(() => {
+    if (!step.server_id) {
+      setTools([]);
+      return;
+    }
+    let cancelled = false;
+    setIsLoadingTools(true);
+    setToolsError(null);
+    discoverServerTools(sessionId, step.server_id)
+      .then((discovered) => {
+        if (!cancelled) setTools(discovered);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        setTools([]);
+        setToolsError(error instanceof Error ? error.message : String(error));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingTools(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, step.server_id]);
+
+  // Pick up parameters replaced from outside, e.g. picking another tool or loading a workflow
+  useEffect(() => {
+    if (step.parameters !== lastEmitted.current) {
+      setText(serialize(step.parameters));
+      setJsonError(null);
+      onJsonValidityChange(true);
+      lastEmitted.current = step.parameters;
+    }
+  }, [step.parameters]);
+
+  const handleTextChange = (nextText: string) => {
+    setText(nextText);
+    try {
+      const parsed = nextText.trim() ? JSON.parse(nextText) : {};
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error('expected an object like { "name": "value" }');
+      }
+      setJsonError(null);
+      onJsonValidityChange(true);
+      lastEmitted.current = parsed;
+      onChange({ ...step, parameters: parsed });
+    } catch (error) {
+      setJsonError(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+      onJsonValidityChange(false);
+    }
+  };
+
+  const selectTool = (toolName: string) => {
+    const tool = tools.find(t => t.name === toolName);
+    onChange({ ...step, tool_name: toolName, parameters: buildDefaultValue(tool?.inputSchema) || {} });
+  };
+
+  const schema = tools.find(tool => tool.name === step.tool_name)?.inputSchema;
+  const properties = Object.keys(schema?.properties || {});
+  const required = schema?.required || [];
+  const selectClassName = 'w-full p-2 text-sm border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-black focus:border-transparent';
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          {STATUS_ICONS[run?.status || 'pending']}
+          <h3 className="text-sm font-semibold text-gray-900">Step {index + 1}</h3>
+          {run?.status === 'skipped' && <span className="text-xs text-gray-500">skipped</span>}
+        </div>
+        <div className="flex items-center space-x-0.5">
+          <button
+            onClick={() => onMove(-1)}
+            disabled={disabled || isFirst}
+            className="p-1.5 text-gray-400 hover:text-black hover:bg-gray-100 rounded-lg disabled:opacity-30"
+            title="Move up"
+          >
+            <ArrowUp size={12} />
+          </button>
+          <button
+            onClick={() => onMove(1)}
+            disabled={disabled || isLast}
+            className="p-1.5 text-gray-400 hover:text-black hover:bg-gray-100 rounded-lg disabled:opacity-30"
+            title="Move down"
+          >
+            <ArrowDown size={12} />
+          </button>
+          <button
+            onClick={onRemove}
+            disabled={disabled}
+            className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-30"
+            title="Remove step"
+          >
+            <Trash2 size={12} />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={step.server_id}
+          onChange={(e) => onChange({ ...step, server_id: e.target.value, tool_name: '', parameters: {} })}
+          disabled={disabled}
+          aria-label={`Step ${index + 1} server`}
+          className={selectClassName}
+        >
+          <option value="">Choose a server...</option>
+          {servers.map(server => (
+            <option key={server.serverId} value={server.serverId}>{server.serverName}</option>
+          ))}
+          {step.server_id && !servers.some(server => server.serverId === step.server_id) && (
+            <option value={step.server_id}>{step.server_id} (not in this session)</option>
+          )}
+        </select>
+        <select
+          value={step.tool_name}
+          onChange={(e) => selectTool(e.target.value)}
+          disabled={disabled || !step.server_id || isLoadingTools}
+          aria-label={`Step ${index + 1} tool`}
+          className={selectClassName}
+        >
+          <option value="">{isLoadingTools ? 'Discovering tools...' : 'Choose a tool...'}</option>
+          {tools.map(tool => <option key={tool.name} value={tool.name}>{tool.name}</option>)}
+          {step.tool_name && !isLoadingTools && !tools.some(tool => tool.name === step.tool_name) && (
+            <option value={step.tool_name}>{step.tool_name} (not found)</option>
+          )}
+        </select>
+      </div>
+      {toolsError && <p className="text-xs text-red-600">Failed to load tools: {toolsError}</p>}
+
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Parameters</label>
+        <textarea
+          value={text}
+          onChange={(e) => handleTextChange(e.target.value)}
+          rows={Math.min(Math.max(text.split('\n').length, 3), 12)}
+          disabled={disabled}
+          spellCheck={false}
+          className={`w-full p-2 border rounded-lg focus:ring-2 focus:ring-black focus:border-transparent font-mono text-xs ${
+            jsonError ? 'border-red-300 bg-red-50' : 'border-gray-300'
+          }`}
+        />
+        {jsonError && <p className="text-xs text-red-600 mt-1">{jsonError}</p>}
+        {properties.length > 0 && (
+          <p className="text-xs text-gray-500 mt-1">
+            Accepts {properties.map(name => (required.includes(name) ? `${name}*` : name)).join(', ')}
+          </p>
+        )}
+        {index > 0 && (
+          <p className="text-xs text-gray-500 mt-1">
+            Use <code className="font-mono">{'{{steps.1}}'}</code> or a path like{' '}
+            <code className="font-mono">{'{{steps.1.items[0].path}}'}</code> to pass an earlier step&apos;s output.
+          </p>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-2 text-xs text-gray-700">
+        <label htmlFor={`${step.id}-policy`}>If this step fails</label>
+        <select
+          id={`${step.id}-policy`}
+          value={step.on_failure}
+          onChange={(e) => onChange({ ...step, on_failure: e.target.value as WorkflowFailurePolicy })}
+          disabled={disabled}
+          className="px-2 py-1 text-xs border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-black"
+        >
+          <option value="stop">stop the workflow</option>
+          <option value="continue">continue with the next step</option>
+        </select>
+      </div>
+
+      {run && run.status !== 'pending' && run.status !== 'skipped' && (
+        <div className="pt-3 border-t border-gray-100 space-y-2">
+          {run.parameters && (
+            <pre className="text-xs bg-gray-50 p-2 rounded border border-gray-200 overflow-x-auto text-gray-700">
+              {`${step.tool_name}(${JSON.stringify(run.parameters, null, 2)})`}
+            </pre>
+          )}
+          {run.progress && <p className="text-xs text-gray-600 whitespace-pre-wrap">{run.progress}</p>}
+          {run.error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-2 text-xs text-red-700">{run.error}</div>
+          )}
+          {run.result?.result !== undefined && run.result.result !== null && (
+            <ToolResultViewer value={run.result.result} fileName={`step-${index + 1}-${step.tool_name}`} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { useState } from 'react';
+import { McpServer } from '@/types';
+
+export const MIN_COMPARE = 2;
+export const MAX_COMPARE = 4;
+
+/** Servers picked for side-by-side comparison, capped at `MAX_COMPARE`. */
+export function useCompareSelection() {
+  const [selected, setSelected] = useState<McpServer[]>([]);
+
+  const toggle = (server: McpServer) => {
+    setSelected(prev => {
+      if (prev.some(s => s.id === server.id)) return prev.filter(s => s.id !== server.id);
+      return prev.length >= MAX_COMPARE ? prev : [...prev, server];
+    });
+  };
+
+  return {
+    selected,
+    isSelected: (serverId: string) => selected.some(s => s.id === serverId),
+    isFull: selected.length >= MAX_COMPARE,
+    canCompare: selected.length >= MIN_COMPARE,
+    toggle,
+    remove: (serverId: string) => setSelected(prev => prev.filter(s => s.id !== serverId)),
+    clear: () => setSelected([]),
+  };
+}
@@ -0,0 +1,30 @@
+import { useEffect, useRef, useState } from 'react';
+import { ServerEvent } from '@/types/api';
+import { subscribeToServerEvents } from '@/lib/serverEvents';
+
+/**
+ * Keeps a component subscribed to the session's live server events.
+ * Handlers may change every render; the latest ones are always called.
+ * Returns whether the status stream is currently connected.
+ */
+export function useServerEvents(
+  sessionId: string,
+  onEvent: (event: ServerEvent) => void,
+  onReconnect?: () => void
+) {
+  const [isConnected, setIsConnected] = useState(false);
+  const handlersRef = useRef({ onEvent, onReconnect });
+  handlersRef.current = { onEvent, onReconnect };
+
+  useEffect(() => {
+    if (!sessionId) return;
+    setIsConnected(false);
+    return subscribeToServerEvents(sessionId, {
+      onEvent: (event) => handlersRef.current.onEvent(event),
+      onReconnect: () => handlersRef.current.onReconnect?.(),
+      onConnectionChange: setIsConnected,
+    });
+  }, [sessionId]);
+
+  return isConnected;
+}
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+import { getOrCreateSessionId } from '@/lib/session';
+
+/** The current chat session id, read from localStorage after mount (empty until then). */
+export function useSessionId() {
+  const [sessionId, setSessionId] = useState('');
+
+  useEffect(() => {
+    setSessionId(getOrCreateSessionId());
+  }, []);
+
+  return sessionId;
+}
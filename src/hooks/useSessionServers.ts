@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+import * as api from '@/lib/api';
+import { invalidateServerTools } from '@/lib/toolDiscovery';
+import { McpCredentialRequirement, McpServer, SessionServer } from '@/types';
+import { useServerEvents } from './useServerEvents';
+
+/**
+ * Session membership for pages outside the chat. `addServer` asks for
+ * credentials first when the server needs them: render
+ * `McpCredentialModal` while `credentialRequirements` is set and pass it
+ * `handleCredentialsSubmitted`.
+ */
+export function useSessionServers(sessionId: string) {
+  const [servers, setServers] = useState<SessionServer[]>([]);
+  const [credentialRequirements, setCredentialRequirements] = useState<McpCredentialRequirement | null>(null);
+
+  const reload = async () => {
+    if (!sessionId) return;
+    try {
+      const data = await api.getSessionServers(sessionId);
+      setServers(data.servers || []);
+    } catch (error) {
+      console.error('Failed to load session servers:', error);
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, [sessionId]);
+
+  useServerEvents(sessionId, (event) => {
+    if (event.type === 'server_removed') {
+      setServers(prev => prev.filter(s => s.serverId !== event.server_id));
+    } else if (event.type === 'server_status' && !servers.some(s => s.serverId === event.server_id)) {
+      reload();
+    }
+  }, reload);
+
+  // Resolves true once the server is in the session, false if it is waiting on credentials
+  const addServer = async (server: Pick<McpServer, 'id' | 'name'>): Promise<boolean> => {
+    const data = await api.getCredentialRequirements(sessionId, server.id);
+    if (data.credential_requirements && data.credential_requirements.length > 0) {
+      setCredentialRequirements({
+        server_id: server.id,
+        server_name: server.name,
+        required_fields: data.credential_requirements,
+      });
+      return false;
+    }
+    await api.addServer(sessionId, server.id, { server_name: server.name });
+    invalidateServerTools(sessionId, server.id);
+    await reload();
+    return true;
+  };
+
+  const removeServer = async (serverId: string) => {
+    await api.removeServer(sessionId, serverId);
+    invalidateServerTools(sessionId, serverId);
+    setServers(prev => prev.filter(s => s.serverId !== serverId));
+  };
+
+  const handleCredentialsSubmitted = (success: boolean, _message: string, serverId?: string) => {
+    setCredentialRequirements(null);
+    if (success) {
+      if (serverId) invalidateServerTools(sessionId, serverId);
+      reload();
+    }
+  };
+
+  return {
+    servers,
+    isInSession: (serverId: string) => servers.some(s => s.serverId === serverId),
+    addServer,
+    removeServer,
+    credentialRequirements,
+    dismissCredentials: () => setCredentialRequirements(null),
+    handleCredentialsSubmitted,
+  };
+}
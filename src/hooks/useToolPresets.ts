@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import * as toolPresets from '@/lib/toolPresets';
+import { ToolPreset } from '@/types';
+
+/** Every saved tool preset, kept current as presets are saved or deleted anywhere in the app. */
+export function useToolPresets() {
+  const [presets, setPresets] = useState<ToolPreset[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      toolPresets.listPresets()
+        .then((loaded) => {
+          if (!cancelled) setPresets(loaded);
+        })
+        .catch(error => console.error('Failed to load tool presets:', error));
+    };
+    load();
+    const unsubscribe = toolPresets.subscribeToPresets(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return presets;
+}
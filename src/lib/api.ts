@@ -0,0 +1,207 @@
+import {
+  AddServerRequest,
+  AddServerResponse,
+  CatalogSearchParams,
+  CatalogSearchResponse,
+  CatalogServerDetail,
+  ConfiguredServersResponse,
+  CredentialRequirementsResponse,
+  ExecuteToolRequest,
+  FunctionResultsRequest,
+  ImportServersRequest,
+  ImportServersResponse,
+  SaveCredentialsResponse,
+  TestCredentialsResponse,
+  SendMessageRequest,
+  ServerActionResponse,
+  ServerConfigsResponse,
+  ServerToolsResponse,
+  SessionServersResponse,
+} from '@/types/api';
+
+export const API_BASE_URL = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001').replace(/\/+$/, '');
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly body: any;
+
+  constructor(message: string, status: number, body?: any) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { name?: string }).name === 'AbortError';
+
+const chatPath = (sessionId: string, path: string = '') =>
+  `${API_BASE_URL}/chat/${encodeURIComponent(sessionId)}${path}`;
+
+const serverPath = (sessionId: string, serverId: string, path: string = '') =>
+  chatPath(sessionId, `/servers/${encodeURIComponent(serverId)}${path}`);
+
+const readErrorBody = async (response: Response) => {
+  try {
+    const text = await response.text();
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  } catch {
+    return undefined;
+  }
+};
+
+const request = async (url: string, init?: RequestInit): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new ApiError(`Network error: ${error instanceof Error ? error.message : String(error)}`, 0);
+  }
+
+  if (!response.ok) {
+    const body = await readErrorBody(response);
+    const message = (body && typeof body === 'object' && body.message) || `HTTP error! status: ${response.status}`;
+    throw new ApiError(message, response.status, body);
+  }
+
+  return response;
+};
+
+const getJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await request(url, init);
+  try {
+    return (await response.json()) as T;
+  } catch {
+    throw new ApiError('Invalid JSON in response', response.status);
+  }
+};
+
+const postJson = <T>(url: string, body: unknown, init?: RequestInit): Promise<T> =>
+  getJson<T>(url, {
+    ...init,
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+const postStream = async (url: string, body: unknown, init?: RequestInit): Promise<ReadableStream<Uint8Array>> => {
+  const response = await request(url, {
+    ...init,
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.body) {
+    throw new ApiError('No response body', response.status);
+  }
+
+  return response.body;
+};
+
+export const sendMessage = (sessionId: string, payload: SendMessageRequest, init?: RequestInit) =>
+  postStream(chatPath(sessionId, '/message'), payload, init);
+
+export const sendFunctionResults = (sessionId: string, payload: FunctionResultsRequest, init?: RequestInit) =>
+  postStream(chatPath(sessionId, '/function-results'), payload, init);
+
+export const executeTool = (
+  sessionId: string,
+  serverId: string,
+  toolName: string,
+  payload: ExecuteToolRequest,
+  init?: RequestInit
+) => postStream(serverPath(sessionId, serverId, `/tools/${encodeURIComponent(toolName)}`), payload, init);
+
+/** Full-text, faceted search over the whole MCP server catalog (not tied to a session). */
+export const searchCatalog = (params: CatalogSearchParams, init?: RequestInit) => {
+  const query = new URLSearchParams();
+  if (params.query) query.set('q', params.query);
+  if (params.sort) query.set('sort', params.sort);
+  if (params.page) query.set('page', String(params.page));
+  if (params.page_size) query.set('page_size', String(params.page_size));
+  Object.entries(params.filters || {}).forEach(([facet, values]) => {
+    (values || []).forEach(value => query.append(facet, value));
+  });
+  return getJson<CatalogSearchResponse>(`${API_BASE_URL}/servers/catalog?${query.toString()}`, init);
+};
+
+export const getCatalogServer = (serverId: string, init?: RequestInit) =>
+  getJson<CatalogServerDetail>(`${API_BASE_URL}/servers/catalog/${encodeURIComponent(serverId)}`, init);
+
+export const getSessionServers = (sessionId: string) =>
+  getJson<SessionServersResponse>(chatPath(sessionId, '/servers'));
+
+export const getConfiguredServers = (sessionId: string) =>
+  getJson<ConfiguredServersResponse>(chatPath(sessionId, '/servers/configured'));
+
+/** Opens the long-lived `text/event-stream` of status events for the session's servers. */
+export const openServerEvents = async (sessionId: string, init?: RequestInit): Promise<ReadableStream<Uint8Array>> => {
+  const response = await request(chatPath(sessionId, '/servers/events'), {
+    ...init,
+    headers: { Accept: 'text/event-stream' },
+  });
+
+  if (!response.body) {
+    throw new ApiError('No response body', response.status);
+  }
+
+  return response.body;
+};
+
+export const getServerTools = (sessionId: string, serverId: string) =>
+  getJson<ServerToolsResponse>(serverPath(sessionId, serverId, '/tools'));
+
+export const addServer = (sessionId: string, serverId: string, payload: AddServerRequest) =>
+  postJson<AddServerResponse>(serverPath(sessionId, serverId), payload);
+
+/**
+ * Returns the launch config of every server in the session. Secret env
+ * values are only included when asked for, so exports with placeholders
+ * never pull them into the browser.
+ */
+export const getServerConfigs = (sessionId: string, includeSecrets: boolean) =>
+  getJson<ServerConfigsResponse>(chatPath(sessionId, `/servers/export?include_secrets=${includeSecrets}`));
+
+/** Adds servers described by an imported MCP config (command, args, env) in a single request. */
+export const importServers = (sessionId: string, payload: ImportServersRequest) =>
+  postJson<ImportServersResponse>(chatPath(sessionId, '/servers/import'), payload);
+
+export const removeServer = async (sessionId: string, serverId: string): Promise<void> => {
+  await request(serverPath(sessionId, serverId), { method: 'DELETE' });
+};
+
+export const stopServer = (sessionId: string, serverId: string) =>
+  postJson<ServerActionResponse>(serverPath(sessionId, serverId, '/stop'), {});
+
+export const restartServer = (sessionId: string, serverId: string) =>
+  postJson<ServerActionResponse>(serverPath(sessionId, serverId, '/restart'), {});
+
+export const getCredentialRequirements = (sessionId: string, serverId: string) =>
+  getJson<CredentialRequirementsResponse>(serverPath(sessionId, serverId, '/credentials/requirements'));
+
+export const saveCredentials = (sessionId: string, serverId: string, credentials: Record<string, string>) =>
+  postJson<SaveCredentialsResponse>(serverPath(sessionId, serverId, '/credentials'), credentials);
+
+/** Checks credentials against the server without saving them. */
+export const testCredentials = (sessionId: string, serverId: string, credentials: Record<string, string>) =>
+  postJson<TestCredentialsResponse>(serverPath(sessionId, serverId, '/credentials/test'), credentials);
+
+/**
+ * Asks the backend to stop any generation or tool execution still running
+ * for the session. Best effort: the client has already aborted its own
+ * request, so failures are only logged.
+ */
+export const cancelSessionStream = async (sessionId: string): Promise<void> => {
+  try {
+    await request(chatPath(sessionId, '/cancel'), { method: 'POST' });
+  } catch (error) {
+    console.warn('Backend did not acknowledge cancellation:', error);
+  }
+};
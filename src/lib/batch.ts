@@ -0,0 +1,232 @@
+import { JsonSchema } from '@/types';
+import { coerceStringValue, validateToolParameters } from './jsonSchema';
+import { ToolRunResult, runTool } from './toolRunner';
+import { isAbortError } from './api';
+import { toCsv } from './toolResult';
+import * as executionLog from './executionLog';
+
+// Running one tool over many parameter sets from a CSV or JSON list
+
+export class BatchInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BatchInputError';
+  }
+}
+
+export type BatchRowStatus = 'pending' | 'running' | 'success' | 'failed' | 'invalid';
+
+export interface BatchRow {
+  index: number;
+  parameters: Record<string, any>;
+  status: BatchRowStatus;
+  result?: ToolRunResult;
+  error?: string;
+  attempts: number;
+}
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// RFC 4180 style: quoted fields may hold commas, newlines and doubled quotes
+const parseCsvRecords = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (inQuotes) throw new BatchInputError('A quoted CSV field is never closed');
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records.filter(fields => fields.some(value => value.trim() !== ''));
+};
+
+// Marks parameter columns in exported CSVs
+const PARAMETER_COLUMN_PREFIX = 'param.';
+
+/**
+ * Reads parameter sets from a JSON array of objects or from CSV with a
+ * header row of parameter names. CSV cells are converted to the types the
+ * tool's schema expects; empty cells are left out. A results CSV exported
+ * from a batch is read back through its `param.` columns.
+ */
+export const parseBatchInput = (text: string, schema?: JsonSchema): Record<string, any>[] => {
+  const trimmed = text.trim();
+  if (!trimmed) throw new BatchInputError('Paste or upload a list of parameter sets');
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let json: any;
+    try {
+      json = JSON.parse(trimmed);
+    } catch (error) {
+      throw new BatchInputError(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!Array.isArray(json)) throw new BatchInputError('Expected a JSON array of parameter objects');
+    const badIndex = json.findIndex(entry => !isPlainObject(entry));
+    if (badIndex !== -1) throw new BatchInputError(`Row ${badIndex + 1} must be an object`);
+    if (json.length === 0) throw new BatchInputError('The list is empty');
+    return json;
+  }
+
+  const [header, ...records] = parseCsvRecords(trimmed);
+  const headerNames = header.map(column => column.trim());
+  if (headerNames.some(column => !column)) throw new BatchInputError('Every CSV column needs a parameter name in the header row');
+  // A CSV from exportBatchResults keeps its parameters under a prefix next to outcome columns, which are dropped
+  const isExport = headerNames.some(column => column.startsWith(PARAMETER_COLUMN_PREFIX));
+  const columns = headerNames.map((column) => {
+    if (!isExport) return column;
+    return column.startsWith(PARAMETER_COLUMN_PREFIX) ? column.slice(PARAMETER_COLUMN_PREFIX.length) : null;
+  });
+  if (records.length === 0) throw new BatchInputError('The CSV has a header row but no rows');
+
+  const properties = schema?.properties || {};
+  return records.map((record, recordIndex) => {
+    if (record.length > columns.length) {
+      throw new BatchInputError(`Row ${recordIndex + 1} has ${record.length} cells but the header has ${columns.length}`);
+    }
+    const parameters: Record<string, any> = {};
+    columns.forEach((column, columnIndex) => {
+      const cell = record[columnIndex];
+      if (column === null || cell === undefined || cell === '') return;
+      parameters[column] = coerceStringValue(properties[column], cell);
+    });
+    return parameters;
+  });
+};
+
+/** Builds pending rows, marking any that fail schema validation as invalid up front. */
+export const createBatchRows = (parameterSets: Record<string, any>[], schema?: JsonSchema): BatchRow[] =>
+  parameterSets.map((parameters, index) => {
+    const messages = Object.values(validateToolParameters(schema, parameters));
+    return messages.length > 0
+      ? { index, parameters, status: 'invalid', error: messages.join('; '), attempts: 0 }
+      : { index, parameters, status: 'pending', attempts: 0 };
+  });
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (ms <= 0 || signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+
+interface RunBatchOptions {
+  sessionId: string;
+  serverId: string;
+  toolName: string;
+  // How many rows may run at once
+  concurrency: number;
+  // Most rows started per minute; 0 for no limit
+  ratePerMinute: number;
+  signal?: AbortSignal;
+  onRowUpdate: (row: BatchRow) => void;
+}
+
+/**
+ * Runs the given rows through `runTool`, at most `concurrency` at a time and
+ * spacing starts to honour `ratePerMinute`. Each run is recorded in the
+ * execution log. Aborting `signal` stops rows in flight (marked failed) and
+ * leaves rows that never started pending, so they can be run later.
+ */
+export const runBatch = async (rows: BatchRow[], options: RunBatchOptions): Promise<void> => {
+  const { sessionId, serverId, toolName, signal, onRowUpdate } = options;
+  const queue = [...rows];
+  const interval = options.ratePerMinute > 0 ? 60000 / options.ratePerMinute : 0;
+  let nextStartAt = 0;
+
+  const worker = async () => {
+    while (queue.length > 0 && !signal?.aborted) {
+      const row = queue.shift()!;
+
+      // Claim the next start slot before waiting, so workers queue up behind each other
+      const startAt = Math.max(Date.now(), nextStartAt);
+      nextStartAt = startAt + interval;
+      await wait(startAt - Date.now(), signal);
+      if (signal?.aborted) return;
+
+      const attempts = row.attempts + 1;
+      onRowUpdate({ ...row, status: 'running', result: undefined, error: undefined, attempts });
+      try {
+        const startedAt = Date.now();
+        const result = await runTool(sessionId, serverId, toolName, row.parameters, signal);
+        executionLog.recordExecution(sessionId, {
+          serverId,
+          toolName,
+          parameters: row.parameters,
+          startedAt,
+          result,
+          source: 'workbench',
+        });
+        onRowUpdate({ ...row, status: result.success ? 'success' : 'failed', result, error: result.error, attempts });
+      } catch (error) {
+        if (!isAbortError(error)) throw error;
+        onRowUpdate({ ...row, status: 'failed', error: 'Stopped before it finished', attempts });
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(options.concurrency, rows.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+};
+
+/** Combines every row with its outcome, for download as JSON or CSV. */
+export const exportBatchResults = (rows: BatchRow[], format: 'json' | 'csv'): string => {
+  const entries = rows.map(row => ({
+    row: row.index + 1,
+    status: row.status,
+    parameters: row.parameters,
+    result: row.result?.result,
+    error: row.error,
+    execution_time: row.result?.execution_time,
+  }));
+  if (format === 'json') return JSON.stringify(entries, null, 2);
+
+  // Each parameter gets its own prefixed column, so names like "status" or "result"
+  // don't clash and parseBatchInput can read the file back in
+  const parameterColumn = (key: string) => `${PARAMETER_COLUMN_PREFIX}${key}`;
+  const parameterColumns: string[] = [];
+  rows.forEach(row => Object.keys(row.parameters).forEach((key) => {
+    if (!parameterColumns.includes(parameterColumn(key))) parameterColumns.push(parameterColumn(key));
+  }));
+  const columns = ['row', 'status', ...parameterColumns, 'result', 'error', 'execution_time'];
+  return toCsv(columns, entries.map(({ parameters, ...entry }) => ({
+    ...Object.fromEntries(Object.entries(parameters).map(([key, value]) => [parameterColumn(key), value])),
+    ...entry,
+  })));
+};
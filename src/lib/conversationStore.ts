@@ -0,0 +1,32 @@
+import { StoredConversation } from '@/types';
+import { CONVERSATIONS_STORE, withStore } from './db';
+
+const withConversations = <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) =>
+  withStore<T>(CONVERSATIONS_STORE, mode, run);
+
+/** Lists stored conversations, most recently updated first. */
+export const listConversations = async (): Promise<StoredConversation[]> => {
+  const conversations = await withConversations<StoredConversation[]>('readonly', store => store.getAll());
+  return conversations.sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime());
+};
+
+export const getConversation = (sessionId: string): Promise<StoredConversation | undefined> =>
+  withConversations<StoredConversation | undefined>('readonly', store => store.get(sessionId));
+
+export const saveConversation = async (conversation: StoredConversation): Promise<void> => {
+  await withConversations('readwrite', store => store.put(conversation));
+};
+
+export const renameConversation = async (sessionId: string, title: string): Promise<void> => {
+  const conversation = await getConversation(sessionId);
+  if (!conversation) return;
+  await saveConversation({
+    ...conversation,
+    title,
+    metadata: { ...conversation.metadata, custom_title: true },
+  });
+};
+
+export const deleteConversation = async (sessionId: string): Promise<void> => {
+  await withConversations('readwrite', store => store.delete(sessionId));
+};
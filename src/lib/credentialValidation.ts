@@ -0,0 +1,48 @@
+import { CredentialField } from '@/types';
+
+const isValidUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/** Returns the first problem with a credential value, or null when it looks usable. */
+export const validateCredentialField = (field: CredentialField, rawValue: string | undefined): string | null => {
+  const value = (rawValue || '').trim();
+  if (!value) return field.required ? `${field.label} is required` : null;
+
+  if (field.type === 'url' && !isValidUrl(value)) {
+    return `${field.label} must be a valid http(s) URL`;
+  }
+  if (field.prefixes && field.prefixes.length > 0 && !field.prefixes.some(prefix => value.startsWith(prefix))) {
+    return `${field.label} should start with ${field.prefixes.map(prefix => `"${prefix}"`).join(' or ')}`;
+  }
+  if (field.min_length !== undefined && value.length < field.min_length) {
+    return `${field.label} must be at least ${field.min_length} characters`;
+  }
+  if (field.max_length !== undefined && value.length > field.max_length) {
+    return `${field.label} must be at most ${field.max_length} characters`;
+  }
+  if (field.pattern) {
+    try {
+      if (!new RegExp(field.pattern).test(value)) {
+        return field.pattern_message || `${field.label} is not in the expected format`;
+      }
+    } catch {
+      // An invalid pattern from the backend shouldn't lock the user out
+    }
+  }
+  return null;
+};
+
+export const validateCredentials = (fields: CredentialField[], values: Record<string, string>) => {
+  const errors: Record<string, string> = {};
+  fields.forEach((field) => {
+    const error = validateCredentialField(field, values[field.name]);
+    if (error) errors[field.name] = error;
+  });
+  return errors;
+};
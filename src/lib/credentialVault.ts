@@ -0,0 +1,105 @@
+import { CredentialField, CredentialProfile, EncryptedCredentials } from '@/types';
+import { CREDENTIAL_PROFILES_STORE, withStore } from './db';
+
+// Named credential profiles kept in the browser, optionally encrypted with a passphrase
+
+const PBKDF2_ITERATIONS = 250000;
+
+export class InvalidPassphraseError extends Error {
+  constructor(message: string = 'Wrong passphrase') {
+    super(message);
+    this.name = 'InvalidPassphraseError';
+  }
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...Array.from(bytes)));
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encryptValues = async (values: Record<string, string>, passphrase: string): Promise<EncryptedCredentials> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(values)));
+  return { salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+const decryptValues = async (encrypted: EncryptedCredentials, passphrase: string): Promise<Record<string, string>> => {
+  const key = await deriveKey(passphrase, fromBase64(encrypted.salt));
+  try {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(encrypted.iv) }, key, fromBase64(encrypted.data));
+    return JSON.parse(new TextDecoder().decode(data));
+  } catch {
+    // AES-GCM fails authentication when the key is wrong
+    throw new InvalidPassphraseError();
+  }
+};
+
+/** Lists profiles alphabetically by name. */
+export const listProfiles = async (): Promise<CredentialProfile[]> => {
+  const profiles = await withStore<CredentialProfile[]>(CREDENTIAL_PROFILES_STORE, 'readonly', store => store.getAll());
+  return profiles.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export interface SaveProfileInput {
+  // Omit to create a new profile; pass an existing id to rotate its values
+  id?: string;
+  name: string;
+  server_id?: string;
+  values: Record<string, string>;
+  // When set, the values are stored encrypted and this is needed to use them
+  passphrase?: string;
+}
+
+export const saveProfile = async ({ id, name, server_id, values, passphrase }: SaveProfileInput): Promise<CredentialProfile> => {
+  const existing = id
+    ? await withStore<CredentialProfile | undefined>(CREDENTIAL_PROFILES_STORE, 'readonly', store => store.get(id))
+    : undefined;
+  const now = new Date().toISOString();
+  const filled = Object.fromEntries(Object.entries(values).filter(([, value]) => value.trim()));
+
+  const profile: CredentialProfile = {
+    id: existing?.id || `profile-${Date.now()}`,
+    name: name.trim(),
+    server_id,
+    field_names: Object.keys(filled),
+    ...(passphrase ? { encrypted: await encryptValues(filled, passphrase) } : { values: filled }),
+    created_at: existing?.created_at || now,
+    updated_at: now,
+  };
+
+  await withStore(CREDENTIAL_PROFILES_STORE, 'readwrite', store => store.put(profile));
+  return profile;
+};
+
+export const deleteProfile = async (id: string): Promise<void> => {
+  await withStore(CREDENTIAL_PROFILES_STORE, 'readwrite', store => store.delete(id));
+};
+
+/** Returns a profile's values, decrypting them when it is encrypted. Throws `InvalidPassphraseError`. */
+export const unlockProfile = async (profile: CredentialProfile, passphrase?: string): Promise<Record<string, string>> => {
+  if (!profile.encrypted) return profile.values || {};
+  if (!passphrase) throw new InvalidPassphraseError('This profile is encrypted; enter its passphrase');
+  return decryptValues(profile.encrypted, passphrase);
+};
+
+/** Profiles saved for this server, or that fill at least one of its fields, best match first. */
+export const findMatchingProfiles = (profiles: CredentialProfile[], serverId: string, fields: CredentialField[]) => {
+  const score = (profile: CredentialProfile) =>
+    (profile.server_id === serverId ? fields.length + 1 : 0) +
+    fields.filter(field => profile.field_names.includes(field.name)).length;
+  return profiles
+    .filter(profile => score(profile) > 0)
+    .sort((a, b) => score(b) - score(a));
+};
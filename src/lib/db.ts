@@ -0,0 +1,89 @@
+const DB_NAME = 'mcp-web-client';
+const DB_VERSION = 5;
+
+export const CONVERSATIONS_STORE = 'conversations';
+export const CREDENTIAL_PROFILES_STORE = 'credential_profiles';
+export const TOOL_EXECUTIONS_STORE = 'tool_executions';
+export const TOOL_PRESETS_STORE = 'tool_presets';
+export const WORKFLOWS_STORE = 'workflows';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this environment'));
+  }
+
+  if (!dbPromise) {
+    let blocked = false;
+    const opening = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      // Each store is created when missing, so this also upgrades older databases
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+          const store = db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'session_id' });
+          store.createIndex('updated_at', 'updated_at');
+        }
+        if (!db.objectStoreNames.contains(CREDENTIAL_PROFILES_STORE)) {
+          db.createObjectStore(CREDENTIAL_PROFILES_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(TOOL_EXECUTIONS_STORE)) {
+          const store = db.createObjectStore(TOOL_EXECUTIONS_STORE, { keyPath: 'id' });
+          store.createIndex('session_id', 'session_id');
+        }
+        if (!db.objectStoreNames.contains(TOOL_PRESETS_STORE)) {
+          const store = db.createObjectStore(TOOL_PRESETS_STORE, { keyPath: 'id' });
+          store.createIndex('server_id', 'server_id');
+        }
+        if (!db.objectStoreNames.contains(WORKFLOWS_STORE)) {
+          db.createObjectStore(WORKFLOWS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // The caller already got an error; don't leave this late connection open to block the next upgrade
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // Another tab is upgrading the schema; step aside so it isn't blocked, and reopen on next use
+        db.onversionchange = () => {
+          db.close();
+          if (dbPromise === opening) dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        if (dbPromise === opening) dbPromise = null;
+        reject(request.error);
+      };
+      // A tab still on an older version holds the database open and hasn't closed it
+      request.onblocked = () => {
+        blocked = true;
+        if (dbPromise === opening) dbPromise = null;
+        reject(new Error('The local database is being upgraded. Close other tabs of this app and try again.'));
+      };
+    });
+    dbPromise = opening;
+  }
+
+  return dbPromise;
+};
+
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  return promisifyRequest(run(transaction.objectStore(storeName)));
+};
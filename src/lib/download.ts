@@ -0,0 +1,21 @@
+/** Saves generated content as a file through a temporary object URL. */
+export const downloadFile = (filename: string, content: string, mimeType: string = 'text/plain') => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const copyToClipboard = async (text: string) => {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch (error) {
+    console.warn('Could not copy to clipboard:', error);
+    return false;
+  }
+};
@@ -0,0 +1,77 @@
+import { ToolExecutionRecord, ToolExecutionResult } from '@/types';
+import { TOOL_EXECUTIONS_STORE, withStore } from './db';
+
+// Per-session history of tool runs from the chat and the workbench
+
+const MAX_RECORDS_PER_SESSION = 200;
+
+const listeners = new Set<(sessionId: string) => void>();
+
+/** Calls `listener` with the session id whenever that session's log changes. */
+export const subscribeToExecutionLog = (listener: (sessionId: string) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = (sessionId: string) => listeners.forEach(listener => listener(sessionId));
+
+/** Lists a session's runs, newest first. */
+export const listExecutions = async (sessionId: string): Promise<ToolExecutionRecord[]> => {
+  const records = await withStore<ToolExecutionRecord[]>(
+    TOOL_EXECUTIONS_STORE,
+    'readonly',
+    store => store.index('session_id').getAll(sessionId)
+  );
+  return records.sort((a, b) => b.executed_at.localeCompare(a.executed_at));
+};
+
+export interface ExecutionToRecord {
+  serverId: string;
+  toolName: string;
+  parameters: Record<string, any>;
+  // `Date.now()` when the run started, used when the backend doesn't report `execution_time`
+  startedAt: number;
+  result: ToolExecutionResult;
+  source: ToolExecutionRecord['source'];
+}
+
+/**
+ * Adds a run to the session's log, dropping the oldest runs past the limit.
+ * Best effort: a failure is logged and never affects the run itself.
+ */
+export const recordExecution = async (sessionId: string, run: ExecutionToRecord): Promise<void> => {
+  const record: ToolExecutionRecord = {
+    id: `run-${run.startedAt}-${Math.random().toString(36).slice(2, 8)}`,
+    session_id: sessionId,
+    server_id: run.serverId,
+    tool_name: run.toolName,
+    parameters: run.parameters,
+    executed_at: new Date(run.startedAt).toISOString(),
+    execution_time: run.result.execution_time ?? Date.now() - run.startedAt,
+    success: run.result.success,
+    error: run.result.error,
+    result: run.result.result,
+    source: run.source,
+  };
+
+  try {
+    await withStore(TOOL_EXECUTIONS_STORE, 'readwrite', store => store.put(record));
+    const records = await listExecutions(sessionId);
+    await Promise.all(records.slice(MAX_RECORDS_PER_SESSION).map(old => deleteExecution(old.id)));
+    notify(sessionId);
+  } catch (error) {
+    console.warn('Failed to record tool execution:', error);
+  }
+};
+
+export const deleteExecution = async (id: string): Promise<void> => {
+  await withStore(TOOL_EXECUTIONS_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const clearExecutions = async (sessionId: string): Promise<void> => {
+  const records = await listExecutions(sessionId);
+  await Promise.all(records.map(record => deleteExecution(record.id)));
+  notify(sessionId);
+};
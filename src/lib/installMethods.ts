@@ -0,0 +1,89 @@
+import { McpServer } from '@/types';
+
+export interface InstallMethod {
+  id: 'npx' | 'global' | 'local' | 'python' | 'docker';
+  title: string;
+  description: string;
+  command: (packageName: string) => string;
+}
+
+// Generic commands for the reference guide; server details only reuse the ones a server's catalog entry supports
+export const INSTALLATION_METHODS: InstallMethod[] = [
+  {
+    id: 'npx',
+    title: 'NPM/NPX (Most Common)',
+    command: packageName => `npx ${packageName}`,
+    description: 'Install and run npm packages directly',
+  },
+  {
+    id: 'global',
+    title: 'Global Installation',
+    command: packageName => `npm install -g ${packageName}`,
+    description: 'Install globally for reuse',
+  },
+  {
+    id: 'local',
+    title: 'Local Development',
+    command: () => 'node dist/index.js',
+    description: 'Run locally built servers',
+  },
+  {
+    id: 'python',
+    title: 'Python Servers',
+    command: packageName => `python -m ${packageName.replace(/^@/, '').replace(/[^a-zA-Z0-9]+/g, '_')}`,
+    description: 'Execute Python-based MCP servers',
+  },
+  {
+    id: 'docker',
+    title: 'Docker Containers',
+    command: packageName => `docker run --rm -i ${packageName.replace(/^@/, '').toLowerCase()}:latest`,
+    description: 'Run containerized servers',
+  },
+];
+
+/** Best guess at a server's package name: explicit metadata first, then the package in its install command. */
+export const getPackageName = (server: Pick<McpServer, 'id' | 'install_command' | 'metadata'>) => {
+  if (typeof server.metadata?.package === 'string') return server.metadata.package;
+  const tokens = (server.install_command || '').trim().split(/\s+/);
+  const runner = tokens.findIndex(token => ['npx', 'install', 'add', 'uvx', '-m'].includes(token));
+  const packageToken = tokens.slice(runner + 1).find(token => token && !token.startsWith('-'));
+  return packageToken || server.id;
+};
+
+export interface ServerInstallCommand {
+  id: string;
+  title: string;
+  command: string;
+}
+
+const NPM_LANGUAGES = ['javascript', 'typescript'];
+
+/**
+ * Install commands for a real server: the catalog's own command, the npm variants when it is a
+ * JavaScript/TypeScript package, and Docker only when the catalog names an image.
+ */
+export const getServerInstallCommands = (
+  server: Pick<McpServer, 'id' | 'install_command' | 'metadata'>
+): ServerInstallCommand[] => {
+  const commands: ServerInstallCommand[] = [];
+  const add = (id: string, title: string, command: string) => {
+    if (!commands.some(existing => existing.command === command)) commands.push({ id, title, command });
+  };
+
+  const installCommand = server.install_command?.trim();
+  if (installCommand) add('catalog', 'Catalog', installCommand);
+
+  const language = String(server.metadata?.language || '').toLowerCase();
+  if (NPM_LANGUAGES.includes(language) && (installCommand || typeof server.metadata?.package === 'string')) {
+    const packageName = getPackageName(server);
+    INSTALLATION_METHODS
+      .filter(method => method.id === 'npx' || method.id === 'global')
+      .forEach(method => add(method.id, method.title.replace(/ \(.*\)$/, ''), method.command(packageName)));
+  }
+
+  if (typeof server.metadata?.docker_image === 'string') {
+    add('docker', 'Docker', `docker run --rm -i ${server.metadata.docker_image}`);
+  }
+
+  return commands;
+};
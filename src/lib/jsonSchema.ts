@@ -0,0 +1,177 @@
+import { JsonSchema } from '@/types';
+
+export type SchemaErrors = Record<string, string>;
+
+/** Returns the first concrete type of a schema, inferring one when it is omitted. */
+export const getSchemaType = (schema: JsonSchema): string => {
+  const type = Array.isArray(schema.type) ? schema.type.find(t => t !== 'null') : schema.type;
+  if (type) return type;
+  if (schema.properties) return 'object';
+  if (schema.items) return 'array';
+  if (schema.enum && schema.enum.length > 0) return typeof schema.enum[0];
+  return 'any';
+};
+
+export const joinSchemaPath = (parent: string, key: string | number) => {
+  if (typeof key === 'number') return `${parent}[${key}]`;
+  return parent ? `${parent}.${key}` : key;
+};
+
+const isEmpty = (value: any) => value === undefined || value === null || value === '';
+
+// Whether the schema or any of its nested properties declares a `default`
+const hasDeclaredDefault = (schema: JsonSchema): boolean =>
+  schema.default !== undefined
+  || Object.keys(schema.properties || {}).some(key => hasDeclaredDefault(schema.properties![key]));
+
+/**
+ * Builds an initial value from `default`s, recursing into object properties.
+ * Required booleans without a default start as false, which is what their
+ * switch shows. Optional nested objects are only filled in when they declare
+ * defaults, so their own required fields don't block an untouched form.
+ */
+export const buildDefaultValue = (schema: JsonSchema | undefined): any => {
+  if (!schema) return undefined;
+  if (schema.default !== undefined) return schema.default;
+
+  if (getSchemaType(schema) === 'object' && schema.properties) {
+    const value: Record<string, any> = {};
+    Object.keys(schema.properties).forEach((key) => {
+      const property = schema.properties![key];
+      const isRequired = (schema.required || []).includes(key);
+      if (getSchemaType(property) === 'object' && !isRequired && !hasDeclaredDefault(property)) return;
+
+      const propertyDefault = buildDefaultValue(property);
+      if (propertyDefault !== undefined) {
+        value[key] = propertyDefault;
+      } else if (getSchemaType(property) === 'boolean' && isRequired) {
+        value[key] = false;
+      }
+    });
+    return value;
+  }
+
+  return undefined;
+};
+
+const matchesType = (type: string, value: any) => {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && !isNaN(value);
+    case 'integer':
+      return typeof value === 'number' && Math.floor(value) === value;
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default:
+      return true;
+  }
+};
+
+/**
+ * Converts a string from a URL into the type a top-level parameter expects.
+ * Values that don't convert cleanly are left as strings for validation to flag.
+ */
+export const coerceStringValue = (schema: JsonSchema | undefined, value: any): any => {
+  if (!schema || typeof value !== 'string') return value;
+  switch (getSchemaType(schema)) {
+    case 'number':
+    case 'integer':
+      return value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value;
+    case 'array':
+    case 'object':
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    default:
+      return value;
+  }
+};
+
+/**
+ * Validates a value against the subset of JSON Schema the parameter form
+ * renders. Errors are keyed by field path (`data.name`, `tags[0]`), with
+ * the empty path standing for the value itself.
+ */
+export const validateSchemaValue = (schema: JsonSchema, value: any, path: string = ''): SchemaErrors => {
+  const errors: SchemaErrors = {};
+  if (isEmpty(value)) return errors;
+
+  const type = getSchemaType(schema);
+  const label = path || 'Value';
+
+  if (!matchesType(type, value)) {
+    errors[path] = `${label} must be ${type === 'integer' ? 'a whole number' : `a ${type}`}`;
+    return errors;
+  }
+
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors[path] = `${label} must be one of: ${schema.enum.join(', ')}`;
+    return errors;
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors[path] = `${label} must be at least ${schema.minimum}`;
+    } else if (schema.maximum !== undefined && value > schema.maximum) {
+      errors[path] = `${label} must be at most ${schema.maximum}`;
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors[path] = `${label} must be at least ${schema.minLength} characters`;
+    } else if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors[path] = `${label} must be at most ${schema.maxLength} characters`;
+    } else if (schema.pattern) {
+      try {
+        if (!new RegExp(schema.pattern).test(value)) {
+          errors[path] = `${label} must match the pattern ${schema.pattern}`;
+        }
+      } catch {
+        // An invalid pattern in the server's schema shouldn't block execution
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors[path] = `${label} needs at least ${schema.minItems} item(s)`;
+    } else if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors[path] = `${label} allows at most ${schema.maxItems} item(s)`;
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        Object.assign(errors, validateSchemaValue(schema.items!, item, joinSchemaPath(path, index)));
+      });
+    }
+  }
+
+  if (type === 'object' && schema.properties) {
+    (schema.required || []).forEach((key) => {
+      if (isEmpty(value[key])) {
+        errors[joinSchemaPath(path, key)] = `${key} is required`;
+      }
+    });
+    Object.keys(schema.properties).forEach((key) => {
+      Object.assign(errors, validateSchemaValue(schema.properties![key], value[key], joinSchemaPath(path, key)));
+    });
+  }
+
+  return errors;
+};
+
+/** Validates a tool's top-level parameters object, treating a missing schema as "anything goes". */
+export const validateToolParameters = (schema: JsonSchema | undefined, parameters: Record<string, any>): SchemaErrors => {
+  if (!schema) return {};
+  return validateSchemaValue({ ...schema, type: 'object' }, parameters);
+};
@@ -0,0 +1,216 @@
+import { CredentialField } from '@/types';
+import { ServerLaunchConfig } from '@/types/api';
+
+// Parses the MCP config formats documented in SearchReferenceModal and generates configs for MCP clients
+
+export type McpConfigFormat = 'claude-desktop' | 'multi-server' | 'simplified';
+
+export interface ImportedServerConfig {
+  // The server's key in `mcpServers`, or `name` in the simplified format
+  key: string;
+  serverId: string;
+  command: string;
+  args: string[];
+  env: Record<string, string>;
+  description?: string;
+}
+
+export interface ParsedMcpConfig {
+  format: McpConfigFormat;
+  servers: ImportedServerConfig[];
+  // Entries that were skipped, with the reason
+  errors: string[];
+}
+
+export class McpConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'McpConfigError';
+  }
+}
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toServerId = (key: string) =>
+  key.trim().toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'server';
+
+const readEnv = (env: any, label: string): Record<string, string> => {
+  if (env === undefined) return {};
+  if (!isPlainObject(env)) throw new McpConfigError(`${label}: "env" must be an object of strings`);
+  const result: Record<string, string> = {};
+  Object.keys(env).forEach((name) => {
+    const value = env[name];
+    if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+      throw new McpConfigError(`${label}: env var ${name} must be a string`);
+    }
+    result[name] = String(value);
+  });
+  return result;
+};
+
+const parseServerEntry = (key: string, entry: any): ImportedServerConfig => {
+  const label = `Server "${key}"`;
+  if (!isPlainObject(entry)) throw new McpConfigError(`${label} must be an object`);
+  if (typeof entry.command !== 'string' || !entry.command.trim()) {
+    throw new McpConfigError(`${label} is missing a "command"`);
+  }
+  if (entry.args !== undefined && (!Array.isArray(entry.args) || !entry.args.every((arg: any) => typeof arg === 'string'))) {
+    throw new McpConfigError(`${label}: "args" must be an array of strings`);
+  }
+
+  return {
+    key,
+    serverId: toServerId(key),
+    command: entry.command.trim(),
+    args: entry.args || [],
+    env: readEnv(entry.env, label),
+    description: typeof entry.description === 'string' ? entry.description : undefined,
+  };
+};
+
+/**
+ * Parses a Claude Desktop / multi-server `{ mcpServers: {...} }` config or
+ * the simplified `{ name, package, environment }` format. Throws
+ * `McpConfigError` when the text isn't a config at all; individual invalid
+ * servers are reported in `errors` so the rest can still be imported.
+ */
+export const parseMcpConfig = (text: string): ParsedMcpConfig => {
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new McpConfigError(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!isPlainObject(json)) throw new McpConfigError('The config must be a JSON object');
+
+  if (json.mcpServers !== undefined) {
+    if (!isPlainObject(json.mcpServers)) throw new McpConfigError('"mcpServers" must be an object');
+    const servers: ImportedServerConfig[] = [];
+    const errors: string[] = [];
+    Object.keys(json.mcpServers).forEach((key) => {
+      try {
+        servers.push(parseServerEntry(key, json.mcpServers[key]));
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    });
+    if (servers.length === 0 && errors.length === 0) throw new McpConfigError('"mcpServers" is empty');
+
+    // Keys like "GitHub" and "github" would otherwise collide on the same server id
+    const seen = new Set<string>();
+    servers.forEach((server) => {
+      let candidate = server.serverId;
+      for (let suffix = 2; seen.has(candidate); suffix++) candidate = `${server.serverId}-${suffix}`;
+      server.serverId = candidate;
+      seen.add(candidate);
+    });
+
+    return { format: Object.keys(json.mcpServers).length > 1 ? 'multi-server' : 'claude-desktop', servers, errors };
+  }
+
+  if (typeof json.name === 'string' && typeof json.package === 'string') {
+    return {
+      format: 'simplified',
+      servers: [{
+        key: json.name,
+        serverId: toServerId(json.name),
+        command: 'npx',
+        args: [json.package],
+        env: readEnv(json.environment, `Server "${json.name}"`),
+        description: typeof json.description === 'string' ? json.description : undefined,
+      }],
+      errors: [],
+    };
+  }
+
+  throw new McpConfigError('Expected an "mcpServers" object or a simplified { "name", "package" } definition');
+};
+
+const PLACEHOLDER_PATTERNS = [/^\.{2,}$/, /^your[\s_-]/i, /^<.*>$/, /^\$\{.*\}$/, /^(changeme|xxx+|todo|placeholder)$/i];
+
+/** Example configs use values like "your-key" or "..." that are clearly not real secrets. */
+export const isPlaceholderValue = (value: string) =>
+  !value.trim() || PLACEHOLDER_PATTERNS.some(pattern => pattern.test(value.trim()));
+
+const SECRET_HINTS = ['KEY', 'TOKEN', 'SECRET', 'PASSWORD', 'PASS', 'CREDENTIAL', 'AUTH', 'PAT'];
+const URL_HINTS = ['URL', 'URI', 'ENDPOINT', 'HOST'];
+
+const nameParts = (name: string) => name.toUpperCase().split(/[_-]/);
+
+export const isSecretEnvVar = (name: string) => nameParts(name).some(part => SECRET_HINTS.includes(part));
+
+/** Describes an env var as a credential form field, guessing its input type from the name. */
+export const envVarToCredentialField = (name: string, value: string): CredentialField => {
+  const parts = nameParts(name);
+  const type = isSecretEnvVar(name)
+    ? 'password'
+    : parts.some(part => URL_HINTS.includes(part)) ? 'url' : 'text';
+
+  return {
+    name,
+    type,
+    label: parts.map(part => part.charAt(0) + part.slice(1).toLowerCase()).join(' '),
+    placeholder: isPlaceholderValue(value) ? value || name : undefined,
+    required: true,
+  };
+};
+
+export type ExportTarget = 'claude-desktop' | 'vscode' | 'cursor';
+
+export const EXPORT_TARGETS: Record<ExportTarget, { label: string; fileName: string; location: string }> = {
+  'claude-desktop': { label: 'Claude Desktop', fileName: 'claude_desktop_config.json', location: 'claude_desktop_config.json' },
+  'vscode': { label: 'VS Code', fileName: 'mcp.json', location: '.vscode/mcp.json' },
+  'cursor': { label: 'Cursor', fileName: 'mcp.json', location: '.cursor/mcp.json' },
+};
+
+/**
+ * Builds the config file a client expects for the given servers. Unless
+ * `includeValues` is set, every env var is replaced by each client's own
+ * substitution syntax (VS Code prompts for them through `inputs`), since
+ * values like connection strings carry secrets whatever their name.
+ */
+export const buildClientConfig = (
+  target: ExportTarget,
+  servers: ServerLaunchConfig[],
+  { includeValues }: { includeValues: boolean }
+) => {
+  const inputs: Record<string, any>[] = [];
+
+  const exportEnv = (env: Record<string, string>) => {
+    const result: Record<string, string> = {};
+    Object.keys(env).forEach((name) => {
+      if (includeValues) {
+        result[name] = env[name];
+      } else if (target === 'vscode') {
+        const id = name.toLowerCase().replace(/_/g, '-');
+        if (!inputs.some(input => input.id === id)) {
+          inputs.push({ type: 'promptString', id, description: envVarToCredentialField(name, '').label, password: true });
+        }
+        result[name] = `\${input:${id}}`;
+      } else if (target === 'cursor') {
+        result[name] = `\${env:${name}}`;
+      } else {
+        result[name] = `<${name}>`;
+      }
+    });
+    return result;
+  };
+
+  const entries: Record<string, any> = {};
+  servers.forEach((server) => {
+    const env = exportEnv(server.env || {});
+    entries[server.server_id] = {
+      ...(target === 'vscode' ? { type: 'stdio' } : {}),
+      command: server.command,
+      args: server.args || [],
+      ...(Object.keys(env).length > 0 ? { env } : {}),
+    };
+  });
+
+  if (target === 'vscode') {
+    return inputs.length > 0 ? { inputs, servers: entries } : { servers: entries };
+  }
+  return { mcpServers: entries };
+};
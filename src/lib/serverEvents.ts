@@ -0,0 +1,110 @@
+import { ConfiguredServer } from '@/types';
+import { ServerEvent, ServerStatusEvent } from '@/types/api';
+import { ApiError, isAbortError, openServerEvents } from './api';
+import { readEventStream } from './sse';
+
+export interface ServerEventHandlers {
+  onEvent: (event: ServerEvent) => void;
+  // Called when a dropped stream comes back, since events may have been missed meanwhile
+  onReconnect?: () => void;
+  onConnectionChange?: (connected: boolean) => void;
+}
+
+interface Subscription {
+  handlers: Set<ServerEventHandlers>;
+  controller: AbortController;
+  connected: boolean;
+}
+
+const RECONNECT_DELAYS = [1000, 2000, 5000, 10000, 30000];
+
+// One stream per session, shared by every component that subscribes to it
+const subscriptions = new Map<string, Subscription>();
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+const setConnected = (subscription: Subscription, connected: boolean) => {
+  if (subscription.connected === connected) return;
+  subscription.connected = connected;
+  subscription.handlers.forEach(handlers => handlers.onConnectionChange?.(connected));
+};
+
+const connect = async (sessionId: string, subscription: Subscription) => {
+  const { signal } = subscription.controller;
+  let attempt = 0;
+  let hasConnected = false;
+
+  while (!signal.aborted) {
+    try {
+      const body = await openServerEvents(sessionId, { signal });
+      attempt = 0;
+      setConnected(subscription, true);
+      if (hasConnected) subscription.handlers.forEach(handlers => handlers.onReconnect?.());
+      hasConnected = true;
+
+      await readEventStream(body, ({ event, data }) => {
+        let parsed: ServerEvent;
+        try {
+          parsed = { type: event, ...JSON.parse(data) };
+        } catch (error) {
+          console.warn('Skipping malformed server event:', data, error);
+          return;
+        }
+        subscription.handlers.forEach(handlers => handlers.onEvent(parsed));
+      }, signal);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      // Backends without the events endpoint just don't get live updates
+      if (error instanceof ApiError && (error.status === 404 || error.status === 405)) {
+        setConnected(subscription, false);
+        return;
+      }
+      console.warn('Server status stream dropped:', error);
+    }
+
+    setConnected(subscription, false);
+    await wait(RECONNECT_DELAYS[Math.min(attempt++, RECONNECT_DELAYS.length - 1)], signal);
+  }
+};
+
+/**
+ * Subscribes to `/chat/:sessionId/servers/events`, reconnecting with backoff
+ * while anyone is listening. Returns the unsubscribe function; the stream is
+ * closed once the last subscriber for a session leaves.
+ */
+export const subscribeToServerEvents = (sessionId: string, handlers: ServerEventHandlers) => {
+  let subscription = subscriptions.get(sessionId);
+  if (!subscription) {
+    subscription = { handlers: new Set(), controller: new AbortController(), connected: false };
+    subscriptions.set(sessionId, subscription);
+    connect(sessionId, subscription);
+  } else if (subscription.connected) {
+    handlers.onConnectionChange?.(true);
+  }
+  subscription.handlers.add(handlers);
+
+  const current = subscription;
+  return () => {
+    current.handlers.delete(handlers);
+    if (current.handlers.size === 0) {
+      current.controller.abort();
+      if (subscriptions.get(sessionId) === current) subscriptions.delete(sessionId);
+    }
+  };
+};
+
+/** Folds a status event into a server entry, keeping the legacy flags in step. */
+export const applyServerStatus = <T extends ConfiguredServer>(server: T, event: ServerStatusEvent): T => ({
+  ...server,
+  status: event.status,
+  statusError: event.error,
+  isRunning: event.status === 'running',
+  needsCredentials: event.status === 'needs_credentials',
+});
@@ -0,0 +1,17 @@
+// The chat, catalog and tools pages all work against the session stored here
+const SESSION_STORAGE_KEY = 'mcp-chat-session-id';
+
+export const createSessionId = () => `session-${Date.now()}`;
+
+export const storeSessionId = (sessionId: string) => {
+  localStorage.setItem(SESSION_STORAGE_KEY, sessionId);
+};
+
+/** Returns the stored session id, creating and storing a new one if there is none yet. */
+export const getOrCreateSessionId = () => {
+  const existingSessionId = localStorage.getItem(SESSION_STORAGE_KEY);
+  if (existingSessionId) return existingSessionId;
+  const newSessionId = createSessionId();
+  storeSessionId(newSessionId);
+  return newSessionId;
+};
@@ -0,0 +1,155 @@
+import { ChatStreamEvent } from '@/types/api';
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+const DONE_SENTINEL = '[DONE]';
+
+/**
+ * Reads a `text/event-stream` body and dispatches one event per blank-line
+ * terminated block. Partial lines are buffered across network chunks and
+ * multi-line `data:` fields are joined with `\n`, as the SSE spec describes.
+ * A trailing block without its blank line is still dispatched when the
+ * stream closes, since some backends omit it on the final event.
+ * Returning `false` from `onEvent` stops reading and cancels the stream;
+ * aborting `signal` cancels it too and rejects with an `AbortError`.
+ */
+export const readEventStream = async (
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void | boolean | Promise<void | boolean>,
+  signal?: AbortSignal
+): Promise<void> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const abortError = () => new DOMException('The stream was aborted', 'AbortError');
+
+  if (signal?.aborted) {
+    await reader.cancel();
+    reader.releaseLock();
+    throw abortError();
+  }
+
+  const onAbort = () => {
+    reader.cancel().catch(() => undefined);
+  };
+  signal?.addEventListener('abort', onAbort);
+
+  let buffer = '';
+  let eventType = '';
+  let dataLines: string[] = [];
+  let lastEventId: string | undefined;
+  let stopped = false;
+
+  const dispatch = async () => {
+    if (dataLines.length > 0) {
+      const result = await onEvent({ event: eventType || 'message', data: dataLines.join('\n'), id: lastEventId });
+      if (result === false) stopped = true;
+    }
+    eventType = '';
+    dataLines = [];
+  };
+
+  const processLine = async (line: string) => {
+    if (line === '') {
+      await dispatch();
+      return;
+    }
+    if (line.startsWith(':')) return;
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'event':
+        eventType = value;
+        break;
+      case 'id':
+        if (!value.includes('\0')) lastEventId = value;
+        break;
+      default:
+        // `retry` and unknown fields are ignored
+        break;
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (signal?.aborted) throw abortError();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      // Hold back a trailing '\r' until we know whether a '\n' follows it
+      const holdBack = !done && buffer.endsWith('\r');
+      const complete = holdBack ? buffer.slice(0, -1) : buffer;
+      const lines = complete.split(/\r\n|\r|\n/);
+      buffer = (done ? '' : lines.pop() || '') + (holdBack ? '\r' : '');
+      if (done && lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+
+      for (const line of lines) {
+        await processLine(line);
+        if (stopped || signal?.aborted) break;
+      }
+
+      if (signal?.aborted) throw abortError();
+
+      if (stopped) {
+        await reader.cancel();
+        break;
+      }
+
+      if (done) {
+        await dispatch();
+        break;
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    reader.releaseLock();
+  }
+};
+
+/**
+ * Reads a chat or tool-execution stream whose `data:` payloads are JSON
+ * `ChatStreamEvent`s. Malformed payloads are reported and skipped rather
+ * than aborting the stream. Resolves `true` when the `[DONE]` sentinel was
+ * received and `false` if the stream closed without it.
+ */
+export const readChatStream = async (
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ChatStreamEvent) => void | Promise<void>,
+  signal?: AbortSignal
+): Promise<boolean> => {
+  let receivedDone = false;
+
+  await readEventStream(body, async ({ data }) => {
+    if (data.trim() === DONE_SENTINEL) {
+      receivedDone = true;
+      return false;
+    }
+
+    let parsed: ChatStreamEvent;
+    try {
+      parsed = JSON.parse(data);
+    } catch (error) {
+      console.warn('Failed to parse stream event:', data, error);
+      return;
+    }
+
+    if (!parsed || typeof parsed.type !== 'string') {
+      console.warn('Ignoring stream event without a type:', parsed);
+      return;
+    }
+
+    await onEvent(parsed);
+  }, signal);
+
+  return receivedDone;
+};
@@ -0,0 +1,62 @@
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Past this many LCS cells a diff is too slow to compute in the browser
+const MAX_DIFF_CELLS = 2000000;
+
+/**
+ * Line-by-line diff of two texts (longest common subsequence), or null when
+ * the changed region is too large to compare.
+ */
+export const diffLines = (before: string, after: string): DiffLine[] | null => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Only the region between the common prefix and suffix needs the LCS table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n * m > MAX_DIFF_CELLS) return null;
+
+  // lcs[i][j] is the LCS length of a[start + i..endA) and b[start + j..endB), flattened
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[start + i] === b[start + j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = a.slice(0, start).map(text => ({ type: 'same' as const, text }));
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[start + i] === b[start + j]) {
+      lines.push({ type: 'same', text: a[start + i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      lines.push({ type: 'removed', text: a[start + i] });
+      i++;
+    } else {
+      lines.push({ type: 'added', text: b[start + j] });
+      j++;
+    }
+  }
+  for (; i < n; i++) lines.push({ type: 'removed', text: a[start + i] });
+  for (; j < m; j++) lines.push({ type: 'added', text: b[start + j] });
+
+  return lines.concat(a.slice(endA).map(text => ({ type: 'same' as const, text })));
+};
@@ -0,0 +1,105 @@
+import { FunctionCall, McpToolAnnotations, ToolApprovalPolicy } from '@/types';
+
+const POLICY_STORAGE_PREFIX = 'mcp-tool-approval-policy:';
+
+export const DEFAULT_APPROVAL_POLICY: ToolApprovalPolicy = { mode: 'mutating', allowlist: [] };
+
+// Tool names containing one of these words are treated as writes
+const MUTATING_VERBS = [
+  'create', 'update', 'delete', 'remove', 'insert', 'upsert', 'write', 'edit', 'patch', 'put',
+  'post', 'send', 'push', 'merge', 'close', 'add', 'set', 'drop', 'execute', 'exec', 'run', 'move',
+  'rename', 'modify', 'replace', 'archive', 'publish', 'upload', 'commit', 'invoke', 'call',
+];
+
+// ...and, when no write verb appears, these mark a read
+const READ_ONLY_VERBS = [
+  'get', 'list', 'read', 'search', 'find', 'fetch', 'describe', 'show', 'view', 'lookup', 'browse',
+  'count', 'inspect', 'retrieve',
+];
+
+export type ToolEffect = 'read-only' | 'mutating' | 'unknown';
+
+export interface ToolCallTarget {
+  serverId: string;
+  toolName: string;
+  parameters: Record<string, any>;
+}
+
+export type ApprovalDecision =
+  | { approved: true; parameters: Record<string, any>; alwaysAllow: boolean }
+  | { approved: false; reason?: string };
+
+export const allowlistKey = (serverId: string, toolName: string) => `${serverId}/${toolName}`;
+
+/** Returns the MCP server/tool an AI function call targets, or null for internal functions. */
+export const getToolCallTarget = (functionCall: FunctionCall): ToolCallTarget | null => {
+  const args = functionCall.function_args;
+  if (!args || typeof args.server_id !== 'string' || typeof args.tool_name !== 'string') return null;
+  return {
+    serverId: args.server_id,
+    toolName: args.tool_name,
+    parameters: args.parameters || args.arguments || {},
+  };
+};
+
+// `github_create_issue`, `createIssue` and `API-post-page` all yield their verb as a word
+const nameWords = (toolName: string) =>
+  toolName
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+/**
+ * Classifies what a tool does, preferring the server's MCP annotations and
+ * falling back to the verbs in its name. Tools that fit neither are "unknown".
+ */
+export const classifyTool = (toolName: string, annotations?: McpToolAnnotations): ToolEffect => {
+  if (annotations?.destructiveHint === true || annotations?.readOnlyHint === false) return 'mutating';
+  if (annotations?.readOnlyHint === true) return 'read-only';
+
+  const words = nameWords(toolName);
+  if (words.some(word => MUTATING_VERBS.includes(word))) return 'mutating';
+  if (words.some(word => READ_ONLY_VERBS.includes(word))) return 'read-only';
+  return 'unknown';
+};
+
+/** In "mutating" mode, anything not known to be read-only asks first. */
+export const requiresApproval = (policy: ToolApprovalPolicy, target: ToolCallTarget, annotations?: McpToolAnnotations) => {
+  switch (policy.mode) {
+    case 'always':
+      return true;
+    case 'mutating':
+      return classifyTool(target.toolName, annotations) !== 'read-only'
+        && !policy.allowlist.includes(allowlistKey(target.serverId, target.toolName));
+    case 'allowlist':
+      return !policy.allowlist.includes(allowlistKey(target.serverId, target.toolName));
+    default:
+      return true;
+  }
+};
+
+export const loadApprovalPolicy = (sessionId: string): ToolApprovalPolicy => {
+  try {
+    const stored = localStorage.getItem(`${POLICY_STORAGE_PREFIX}${sessionId}`);
+    return stored ? { ...DEFAULT_APPROVAL_POLICY, ...JSON.parse(stored) } : DEFAULT_APPROVAL_POLICY;
+  } catch {
+    return DEFAULT_APPROVAL_POLICY;
+  }
+};
+
+export const saveApprovalPolicy = (sessionId: string, policy: ToolApprovalPolicy) => {
+  localStorage.setItem(`${POLICY_STORAGE_PREFIX}${sessionId}`, JSON.stringify(policy));
+};
+
+/** The structured result sent back to `/function-results` when the user denies a call. */
+export const buildDenialResult = (target: ToolCallTarget, reason?: string) => ({
+  type: 'tool_call_denied',
+  success: false,
+  denied: true,
+  server_id: target.serverId,
+  tool_name: target.toolName,
+  message: reason
+    ? `The user denied running ${target.toolName}: ${reason}`
+    : `The user denied running ${target.toolName}.`,
+});
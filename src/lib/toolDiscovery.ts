@@ -0,0 +1,55 @@
+import { McpToolDefinition } from '@/types';
+import { getServerTools } from './api';
+
+// Tool lists discovered via the backend's MCP `tools/list`, keyed by `${sessionId}:${serverId}`
+const toolCache = new Map<string, McpToolDefinition[]>();
+const pendingRequests = new Map<string, Promise<McpToolDefinition[]>>();
+
+const cacheKey = (sessionId: string, serverId: string) => `${sessionId}:${serverId}`;
+
+/**
+ * Returns the tools a configured server exposes, fetching them once per
+ * session. Pass `force` to bypass the cache, e.g. after a restart.
+ */
+export const discoverServerTools = (
+  sessionId: string,
+  serverId: string,
+  { force = false }: { force?: boolean } = {}
+): Promise<McpToolDefinition[]> => {
+  const key = cacheKey(sessionId, serverId);
+
+  if (!force) {
+    const cached = toolCache.get(key);
+    if (cached) return Promise.resolve(cached);
+    const pending = pendingRequests.get(key);
+    if (pending) return pending;
+  }
+
+  const request = getServerTools(sessionId, serverId)
+    .then(({ tools }) => {
+      const discovered = tools || [];
+      toolCache.set(key, discovered);
+      return discovered;
+    })
+    .finally(() => {
+      if (pendingRequests.get(key) === request) pendingRequests.delete(key);
+    });
+
+  pendingRequests.set(key, request);
+  return request;
+};
+
+export const getCachedServerTools = (sessionId: string, serverId: string) =>
+  toolCache.get(cacheKey(sessionId, serverId));
+
+/** Drops cached tools for one server, or for every server in the session. */
+export const invalidateServerTools = (sessionId: string, serverId?: string) => {
+  if (serverId) {
+    toolCache.delete(cacheKey(sessionId, serverId));
+    return;
+  }
+  const prefix = `${sessionId}:`;
+  Array.from(toolCache.keys())
+    .filter(key => key.startsWith(prefix))
+    .forEach(key => toolCache.delete(key));
+};
@@ -0,0 +1,52 @@
+// Deep links into the /tools workbench: /tools?server=github-mcp&tool=create_issue&title=Bug
+// Parameters go in `params` as JSON, or one query key per top-level parameter.
+
+export interface ToolSelection {
+  serverId?: string;
+  toolName?: string;
+  parameters?: Record<string, any>;
+}
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+const RESERVED_KEYS = ['server', 'tool', 'params'];
+
+export const buildToolLink = ({ serverId, toolName, parameters }: ToolSelection) => {
+  const query = new URLSearchParams();
+  if (serverId) query.set('server', serverId);
+  if (toolName) query.set('tool', toolName);
+  if (parameters && Object.keys(parameters).length > 0) query.set('params', JSON.stringify(parameters));
+  const queryString = query.toString();
+  return queryString ? `/tools?${queryString}` : '/tools';
+};
+
+/** Reads a selection from the page's search params. Separate keys are strings until the tool schema coerces them. */
+export const parseToolLink = (searchParams: SearchParams): ToolSelection => {
+  const first = (key: string) => {
+    const value = searchParams[key];
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  let parameters: Record<string, any> = {};
+  const paramsJson = first('params');
+  if (paramsJson) {
+    try {
+      const parsed = JSON.parse(paramsJson);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) parameters = parsed;
+    } catch {
+      console.warn('Ignoring invalid "params" in tool link');
+    }
+  }
+  Object.keys(searchParams)
+    .filter(key => !RESERVED_KEYS.includes(key))
+    .forEach((key) => {
+      const value = first(key);
+      if (value !== undefined) parameters[key] = value;
+    });
+
+  return {
+    serverId: first('server') || undefined,
+    toolName: first('tool') || undefined,
+    parameters: Object.keys(parameters).length > 0 ? parameters : undefined,
+  };
+};
@@ -0,0 +1,132 @@
+import { ToolPreset } from '@/types';
+import { TOOL_PRESETS_STORE, withStore } from './db';
+
+// Named tool invocations, shared by every session in this browser
+
+const EXPORT_VERSION = 1;
+
+export class PresetImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PresetImportError';
+  }
+}
+
+const listeners = new Set<() => void>();
+
+/** Calls `listener` whenever a preset is saved, deleted or imported. */
+export const subscribeToPresets = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+/** Lists presets alphabetically, optionally only those for one server. */
+export const listPresets = async (serverId?: string): Promise<ToolPreset[]> => {
+  const presets = await withStore<ToolPreset[]>(
+    TOOL_PRESETS_STORE,
+    'readonly',
+    store => (serverId ? store.index('server_id').getAll(serverId) : store.getAll())
+  );
+  return presets.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export interface SavePresetInput {
+  // Omit to create a new preset; pass an existing id to overwrite it
+  id?: string;
+  name: string;
+  server_id: string;
+  tool_name: string;
+  parameters: Record<string, any>;
+}
+
+export const savePreset = async ({ id, name, server_id, tool_name, parameters }: SavePresetInput): Promise<ToolPreset> => {
+  const existing = id
+    ? await withStore<ToolPreset | undefined>(TOOL_PRESETS_STORE, 'readonly', store => store.get(id))
+    : undefined;
+  const now = new Date().toISOString();
+
+  const preset: ToolPreset = {
+    id: existing?.id || `preset-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: name.trim(),
+    server_id,
+    tool_name,
+    parameters,
+    created_at: existing?.created_at || now,
+    updated_at: now,
+  };
+
+  await withStore(TOOL_PRESETS_STORE, 'readwrite', store => store.put(preset));
+  notify();
+  return preset;
+};
+
+export const deletePreset = async (id: string): Promise<void> => {
+  await withStore(TOOL_PRESETS_STORE, 'readwrite', store => store.delete(id));
+  notify();
+};
+
+/** Serializes presets for sharing. Ids and timestamps stay local. */
+export const exportPresets = (presets: ToolPreset[]): string =>
+  JSON.stringify({
+    version: EXPORT_VERSION,
+    presets: presets.map(({ name, server_id, tool_name, parameters }) => ({ name, server_id, tool_name, parameters })),
+  }, null, 2);
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Reads an export made by `exportPresets`, or a bare array of presets.
+ * Throws `PresetImportError` naming the first entry that is malformed.
+ */
+export const parsePresetExport = (text: string): SavePresetInput[] => {
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new PresetImportError(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const entries = Array.isArray(json) ? json : isPlainObject(json) ? json.presets : undefined;
+  if (!Array.isArray(entries)) throw new PresetImportError('Expected a "presets" array');
+  if (entries.length === 0) throw new PresetImportError('The file has no presets');
+
+  return entries.map((entry: any, index: number) => {
+    const label = `Preset ${index + 1}`;
+    if (!isPlainObject(entry)) throw new PresetImportError(`${label} must be an object`);
+    (['name', 'server_id', 'tool_name'] as const).forEach((key) => {
+      if (typeof entry[key] !== 'string' || !entry[key].trim()) {
+        throw new PresetImportError(`${label} is missing "${key}"`);
+      }
+    });
+    if (entry.parameters !== undefined && !isPlainObject(entry.parameters)) {
+      throw new PresetImportError(`${label}: "parameters" must be an object`);
+    }
+    return {
+      name: entry.name,
+      server_id: entry.server_id,
+      tool_name: entry.tool_name,
+      parameters: entry.parameters || {},
+    };
+  });
+};
+
+/**
+ * Saves imported presets. One with the same name, server and tool as an
+ * existing preset replaces it rather than adding a duplicate.
+ */
+export const importPresets = async (inputs: SavePresetInput[]): Promise<ToolPreset[]> => {
+  const existing = await listPresets();
+  const saved: ToolPreset[] = [];
+  for (const input of inputs) {
+    const match = existing.find(preset =>
+      preset.name === input.name.trim() && preset.server_id === input.server_id && preset.tool_name === input.tool_name
+    );
+    saved.push(await savePreset({ ...input, id: match?.id }));
+  }
+  return saved;
+};
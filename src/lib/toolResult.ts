@@ -0,0 +1,111 @@
+// Normalizes whatever a tool returned into blocks the result viewer knows how to render
+
+export type ResultBlock =
+  | { kind: 'text'; text: string }
+  | { kind: 'image'; src: string; mimeType: string }
+  | { kind: 'resource'; uri: string; mimeType?: string; text?: string; src?: string }
+  | { kind: 'table'; columns: string[]; rows: Record<string, any>[] }
+  | { kind: 'json'; value: any };
+
+const MCP_CONTENT_TYPES = ['text', 'image', 'audio', 'resource'];
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isContentBlock = (value: any) =>
+  isPlainObject(value) && MCP_CONTENT_TYPES.includes(value.type) && (value.type !== 'text' || typeof value.text === 'string');
+
+const toDataUrl = (data: string, mimeType: string) =>
+  /^(data:|https?:)/.test(data) ? data : `data:${mimeType};base64,${data}`;
+
+export const collectColumns = (rows: Record<string, any>[]) => {
+  const columns: string[] = [];
+  rows.forEach((row) => {
+    Object.keys(row).forEach((key) => {
+      if (!columns.includes(key)) columns.push(key);
+    });
+  });
+  return columns;
+};
+
+/** True for non-empty arrays of objects where every row carries at least half of the combined columns. */
+export const isHomogeneousObjectArray = (value: any): value is Record<string, any>[] => {
+  if (!Array.isArray(value) || value.length === 0 || !value.every(isPlainObject)) return false;
+  const columns = collectColumns(value);
+  if (columns.length === 0) return false;
+  return value.every(row => Object.keys(row).length * 2 >= columns.length);
+};
+
+// Text blocks often carry serialized JSON; unwrap it so arrays can become tables
+const parseText = (text: string): ResultBlock[] => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      return toResultBlocks(JSON.parse(trimmed));
+    } catch {
+      // Not JSON after all; fall through to markdown
+    }
+  }
+  return [{ kind: 'text', text }];
+};
+
+const fromContentBlock = (block: Record<string, any>): ResultBlock[] => {
+  switch (block.type) {
+    case 'text':
+      return parseText(block.text);
+    case 'image':
+      return [{ kind: 'image', src: toDataUrl(block.data, block.mimeType || 'image/png'), mimeType: block.mimeType || 'image/png' }];
+    case 'resource': {
+      const resource = block.resource || {};
+      const isImage = typeof resource.mimeType === 'string' && resource.mimeType.startsWith('image/');
+      return [{
+        kind: 'resource',
+        uri: resource.uri || '',
+        mimeType: resource.mimeType,
+        text: resource.text,
+        src: isImage && resource.blob ? toDataUrl(resource.blob, resource.mimeType) : undefined,
+      }];
+    }
+    default:
+      return [{ kind: 'json', value: block }];
+  }
+};
+
+export const toResultBlocks = (value: any): ResultBlock[] => {
+  if (value === undefined || value === null) return [];
+  if (typeof value === 'string') return parseText(value);
+
+  if (Array.isArray(value)) {
+    if (value.every(isContentBlock)) return value.flatMap(fromContentBlock);
+    if (isHomogeneousObjectArray(value)) return [{ kind: 'table', columns: collectColumns(value), rows: value }];
+    return [{ kind: 'json', value }];
+  }
+
+  if (isPlainObject(value)) {
+    // MCP CallToolResult: { content: [...], isError?, structuredContent? }
+    if (Array.isArray(value.content) && value.content.length > 0 && value.content.every(isContentBlock)) {
+      return value.content.flatMap(fromContentBlock);
+    }
+    return [{ kind: 'json', value }];
+  }
+
+  return [{ kind: 'text', text: String(value) }];
+};
+
+export const formatCell = (value: any) => {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+export const compareCells = (a: any, b: any) => {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return 1;
+  if (b === undefined || b === null) return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return formatCell(a).localeCompare(formatCell(b), undefined, { numeric: true });
+};
+
+const escapeCsv = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const toCsv = (columns: string[], rows: Record<string, any>[]) =>
+  [columns.map(escapeCsv).join(','), ...rows.map(row => columns.map(column => escapeCsv(formatCell(row[column]))).join(','))].join('\r\n');
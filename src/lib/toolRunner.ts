@@ -0,0 +1,59 @@
+import { ToolExecutionResult } from '@/types';
+import { ChatStreamEvent } from '@/types/api';
+import { executeTool, isAbortError } from './api';
+import { readChatStream } from './sse';
+
+export interface ToolRunResult extends ToolExecutionResult {
+  ai_analysis?: string;
+}
+
+/**
+ * Executes a tool through `/servers/:serverId/tools/:toolName` and collects
+ * the streamed `tool_execution_result`, `error` and `ai_analysis` events into
+ * a single result. Request failures (other than aborts) are folded into a
+ * failed result rather than thrown. `onEvent` sees each streamed event as
+ * it arrives, for callers that show progress.
+ */
+export const runTool = async (
+  sessionId: string,
+  serverId: string,
+  toolName: string,
+  parameters: Record<string, any>,
+  signal?: AbortSignal,
+  onEvent?: (event: ChatStreamEvent) => void
+): Promise<ToolRunResult> => {
+  let toolExecutionResult = null as ToolExecutionResult | null;
+  let aiAnalysis = '';
+
+  try {
+    const responseBody = await executeTool(sessionId, serverId, toolName, { parameters }, { signal });
+
+    await readChatStream(responseBody, (event) => {
+      onEvent?.(event);
+      if (event.type === 'tool_execution_result') {
+        toolExecutionResult = event.result;
+      } else if (event.type === 'error') {
+        toolExecutionResult = {
+          success: false,
+          error: event.error || event.message,
+          tool_name: event.tool_name,
+          server_id: event.server_id,
+        };
+      } else if (event.type === 'ai_analysis') {
+        aiAnalysis += event.content;
+      }
+    }, signal);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    return {
+      success: false,
+      error: 'Failed to execute tool: ' + (error instanceof Error ? error.message : String(error)),
+    };
+  }
+
+  if (!toolExecutionResult) {
+    return { success: false, error: 'No tool execution result received' };
+  }
+
+  return { ...toolExecutionResult, ai_analysis: aiAnalysis || undefined };
+};
@@ -0,0 +1,273 @@
+import { Workflow, WorkflowStep } from '@/types';
+import { WORKFLOWS_STORE, withStore } from './db';
+import { ToolRunResult, runTool } from './toolRunner';
+import { isAbortError } from './api';
+import * as executionLog from './executionLog';
+
+// Chains of tool calls where a step's parameters can use earlier steps' outputs
+
+// `{{steps.2}}` is step 2's whole output; `{{steps.2.items[0].path}}` drills into it
+const REFERENCE_SOURCE = '\\{\\{\\s*steps\\.(\\d+)((?:\\.[^.\\s\\[\\]{}]+|\\[\\d+\\])*)\\s*\\}\\}';
+
+export class WorkflowReferenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkflowReferenceError';
+  }
+}
+
+export const createStep = (serverId: string = '', toolName: string = ''): WorkflowStep => ({
+  id: `step-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  server_id: serverId,
+  tool_name: toolName,
+  parameters: {},
+  on_failure: 'stop',
+});
+
+/** Lists saved workflows alphabetically by name. */
+export const listWorkflows = async (): Promise<Workflow[]> => {
+  const workflows = await withStore<Workflow[]>(WORKFLOWS_STORE, 'readonly', store => store.getAll());
+  return workflows.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export interface SaveWorkflowInput {
+  // Omit to create a new workflow; pass an existing id to overwrite it
+  id?: string;
+  name: string;
+  steps: WorkflowStep[];
+}
+
+export const saveWorkflow = async ({ id, name, steps }: SaveWorkflowInput): Promise<Workflow> => {
+  const existing = id
+    ? await withStore<Workflow | undefined>(WORKFLOWS_STORE, 'readonly', store => store.get(id))
+    : undefined;
+  const now = new Date().toISOString();
+
+  const workflow: Workflow = {
+    id: existing?.id || `workflow-${Date.now()}`,
+    name: name.trim(),
+    steps,
+    created_at: existing?.created_at || now,
+    updated_at: now,
+  };
+
+  await withStore(WORKFLOWS_STORE, 'readwrite', store => store.put(workflow));
+  return workflow;
+};
+
+export const deleteWorkflow = async (id: string): Promise<void> => {
+  await withStore(WORKFLOWS_STORE, 'readwrite', store => store.delete(id));
+};
+
+// Applies `transform` to every string inside a step's parameters
+const mapStrings = (value: any, transform: (text: string) => string): any => {
+  if (Array.isArray(value)) return value.map(entry => mapStrings(entry, transform));
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, mapStrings(entry, transform)]));
+  }
+  return typeof value === 'string' ? transform(value) : value;
+};
+
+// Rewrites each step's references with `renumber`, which maps an old step number to its new one
+const renumberReferences = (steps: WorkflowStep[], renumber: (stepNumber: number) => number): WorkflowStep[] =>
+  steps.map(step => ({
+    ...step,
+    parameters: mapStrings(step.parameters, text =>
+      text.replace(new RegExp(REFERENCE_SOURCE, 'g'), (reference, stepText: string, path: string) => {
+        const renumbered = renumber(Number(stepText));
+        return renumbered === Number(stepText) ? reference : `{{steps.${renumbered}${path}}}`;
+      })
+    ),
+  }));
+
+/** Moves the step at `from` to `to`, updating references so they keep pointing at the same steps. */
+export const moveStep = (steps: WorkflowStep[], from: number, to: number): WorkflowStep[] => {
+  const moved = [...steps];
+  const [step] = moved.splice(from, 1);
+  moved.splice(to, 0, step);
+  return renumberReferences(moved, stepNumber => {
+    const position = moved.indexOf(steps[stepNumber - 1]);
+    return position === -1 ? stepNumber : position + 1;
+  });
+};
+
+/**
+ * Removes the step at `index`, shifting references to later steps down. References
+ * to the removed step become `{{steps.0}}`, which `findReferenceProblem` reports.
+ */
+export const removeStep = (steps: WorkflowStep[], index: number): WorkflowStep[] =>
+  renumberReferences(steps.filter((_, i) => i !== index), stepNumber => {
+    if (stepNumber === index + 1) return 0;
+    return stepNumber > index + 1 ? stepNumber - 1 : stepNumber;
+  });
+
+/** Describes the first reference to a missing step or one that doesn't run earlier, or returns null. */
+export const findReferenceProblem = (steps: WorkflowStep[]): string | null => {
+  for (let index = 0; index < steps.length; index++) {
+    const references: RegExpMatchArray[] = [];
+    mapStrings(steps[index].parameters, text => {
+      references.push(...Array.from(text.matchAll(new RegExp(REFERENCE_SOURCE, 'g'))));
+      return text;
+    });
+
+    for (const [reference, stepText] of references) {
+      const referenced = Number(stepText);
+      if (referenced < 1 || referenced > steps.length) {
+        return `Step ${index + 1} refers to a step that doesn't exist (${reference})`;
+      }
+      if (referenced > index) {
+        return `Step ${index + 1} refers to step ${referenced}, which doesn't run before it`;
+      }
+    }
+  }
+  return null;
+};
+
+// Tools often return JSON serialized inside a text block, so strings are parsed when the path goes deeper
+const resolvePath = (output: any, path: string, reference: string, stepNumber: number) => {
+  const segments = path.match(/\.[^.[\]]+|\[\d+\]/g) || [];
+  return segments.reduce((current, segment) => {
+    let container = current;
+    if (typeof container === 'string') {
+      try {
+        container = JSON.parse(container);
+      } catch {
+        container = undefined;
+      }
+    }
+    const key = segment.startsWith('[') ? Number(segment.slice(1, -1)) : segment.slice(1);
+    if (container === null || typeof container !== 'object' || !(key in container)) {
+      throw new WorkflowReferenceError(`${reference} was not found in step ${stepNumber}'s output`);
+    }
+    return container[key];
+  }, output);
+};
+
+/**
+ * Fills `{{steps.N...}}` references in a step's parameters. A string that is
+ * only a reference takes the referenced value as is; references inside longer
+ * strings are interpolated, with objects serialized as JSON. `outputs` holds
+ * each earlier step's output, or undefined when that step didn't succeed.
+ * Throws `WorkflowReferenceError`.
+ */
+export const resolveStepParameters = (
+  parameters: Record<string, any>,
+  outputs: any[],
+  stepIndex: number
+): Record<string, any> => {
+  const lookup = (reference: string, stepText: string, path: string) => {
+    const referenced = Number(stepText);
+    if (referenced < 1 || referenced > stepIndex) {
+      throw new WorkflowReferenceError(`Step ${stepIndex + 1} refers to step ${referenced}, which doesn't run before it`);
+    }
+    if (outputs[referenced - 1] === undefined) {
+      throw new WorkflowReferenceError(`Step ${referenced} has no output to use`);
+    }
+    return resolvePath(outputs[referenced - 1], path, reference, referenced);
+  };
+
+  const resolveValue = (value: any): any => {
+    if (Array.isArray(value)) return value.map(resolveValue);
+    if (value !== null && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, resolveValue(entry)]));
+    }
+    if (typeof value !== 'string') return value;
+
+    const whole = value.match(new RegExp(`^${REFERENCE_SOURCE}$`));
+    if (whole) return lookup(whole[0], whole[1], whole[2]);
+    return value.replace(new RegExp(REFERENCE_SOURCE, 'g'), (reference, stepText: string, path: string) => {
+      const resolved = lookup(reference, stepText, path);
+      return typeof resolved === 'string' ? resolved : JSON.stringify(resolved);
+    });
+  };
+
+  return resolveValue(parameters);
+};
+
+export type WorkflowStepStatus = 'pending' | 'running' | 'success' | 'failed' | 'skipped';
+
+export interface WorkflowStepRun {
+  status: WorkflowStepStatus;
+  // The parameters actually sent, after references were filled in
+  parameters?: Record<string, any>;
+  result?: ToolRunResult;
+  error?: string;
+  // Text and analysis streamed while the step runs
+  progress?: string;
+}
+
+interface RunWorkflowOptions {
+  signal?: AbortSignal;
+  onUpdate: (runs: WorkflowStepRun[]) => void;
+}
+
+/**
+ * Runs steps one after another, each through `runTool`, and records them in
+ * the session's execution log. A failed step ends the run unless its policy
+ * is "continue"; later steps are then marked skipped. Aborting `signal`
+ * stops the current step and skips the rest rather than throwing.
+ */
+export const runWorkflow = async (
+  sessionId: string,
+  steps: WorkflowStep[],
+  { signal, onUpdate }: RunWorkflowOptions
+): Promise<WorkflowStepRun[]> => {
+  const runs: WorkflowStepRun[] = steps.map(() => ({ status: 'pending' }));
+  const outputs: any[] = [];
+  let halted = false;
+
+  const update = (index: number, run: WorkflowStepRun) => {
+    runs[index] = run;
+    onUpdate([...runs]);
+  };
+
+  for (let index = 0; index < steps.length; index++) {
+    const step = steps[index];
+    if (halted) {
+      update(index, { status: 'skipped' });
+      continue;
+    }
+
+    let parameters: Record<string, any>;
+    try {
+      parameters = resolveStepParameters(step.parameters, outputs, index);
+    } catch (error) {
+      update(index, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      halted = step.on_failure === 'stop';
+      continue;
+    }
+
+    let progress = '';
+    update(index, { status: 'running', parameters });
+    try {
+      const startedAt = Date.now();
+      const result = await runTool(sessionId, step.server_id, step.tool_name, parameters, signal, (event) => {
+        if (event.type !== 'text' && event.type !== 'ai_analysis') return;
+        progress += event.content;
+        update(index, { status: 'running', parameters, progress });
+      });
+      executionLog.recordExecution(sessionId, {
+        serverId: step.server_id,
+        toolName: step.tool_name,
+        parameters,
+        startedAt,
+        result,
+        source: 'workbench',
+      });
+
+      if (result.success) {
+        outputs[index] = result.result ?? null;
+        update(index, { status: 'success', parameters, result, progress: progress || undefined });
+      } else {
+        update(index, { status: 'failed', parameters, result, error: result.error, progress: progress || undefined });
+        halted = step.on_failure === 'stop';
+      }
+    } catch (error) {
+      if (!isAbortError(error)) throw error;
+      update(index, { status: 'failed', parameters, error: 'Stopped before it finished' });
+      halted = true;
+    }
+  }
+
+  return runs;
+};
@@ -0,0 +1,197 @@
+import { ConfiguredServer, CredentialField, McpServer, McpToolDefinition, ServerStatus, SessionServer, ToolApprovalPolicy, ToolExecutionResult } from './index';
+
+export interface SendMessageRequest {
+  message: string;
+  // Calls this policy gates must stream back without a function_result; see "Backend Contract: Tool Approval" in SETUP_GUIDE.md
+  tool_approval?: ToolApprovalPolicy;
+}
+
+export interface FunctionResultPayload {
+  id: string;
+  function_name: string;
+  function_args?: any;
+  result?: any;
+  function_result?: any;
+}
+
+export interface FunctionResultsRequest {
+  function_results: FunctionResultPayload[];
+  conversation_history: any[];
+  // Same contract as SendMessageRequest.tool_approval
+  tool_approval?: ToolApprovalPolicy;
+}
+
+export interface ExecuteToolRequest {
+  parameters: Record<string, any>;
+}
+
+export interface AddServerRequest {
+  server_name: string;
+}
+
+// How a server is launched; the shape both imported and exported configs use
+export interface ServerLaunchConfig {
+  server_id: string;
+  server_name: string;
+  command: string;
+  args: string[];
+  env: Record<string, string>;
+  description?: string;
+}
+
+export interface ImportServersRequest {
+  servers: ServerLaunchConfig[];
+}
+
+export interface ServerConfigsResponse {
+  servers: ServerLaunchConfig[];
+}
+
+export interface ImportServerResult {
+  server_id: string;
+  success: boolean;
+  message?: string;
+  needs_credentials?: boolean;
+}
+
+export interface ImportServersResponse {
+  results: ImportServerResult[];
+}
+
+export interface AddServerResponse {
+  success?: boolean;
+  message?: string;
+  [key: string]: any;
+}
+
+export interface CredentialRequirementsResponse {
+  credential_requirements: CredentialField[];
+}
+
+export type CredentialCheckStatus = 'passed' | 'failed' | 'warning' | 'skipped';
+
+export interface CredentialCheck {
+  // e.g. `auth`, `permissions`, `reachable`
+  id: string;
+  label: string;
+  status: CredentialCheckStatus;
+  message?: string;
+  // The credential field the check concerns, when it is about a single one
+  field?: string;
+}
+
+export interface SaveCredentialsResponse {
+  success: boolean;
+  message: string;
+  checks?: CredentialCheck[];
+}
+
+export interface TestCredentialsResponse {
+  success: boolean;
+  message: string;
+  checks: CredentialCheck[];
+}
+
+export interface SessionServersResponse {
+  servers: SessionServer[];
+}
+
+export interface ConfiguredServersResponse {
+  servers: ConfiguredServer[];
+}
+
+export interface ServerActionResponse {
+  success: boolean;
+  message?: string;
+}
+
+export interface ServerToolsResponse {
+  tools: McpToolDefinition[];
+}
+
+export type CatalogFacet = 'category' | 'language' | 'license' | 'quality';
+
+export type CatalogSort = 'relevance' | 'stars' | 'quality';
+
+export interface CatalogSearchParams {
+  query?: string;
+  filters?: Partial<Record<CatalogFacet, string[]>>;
+  sort?: CatalogSort;
+  page?: number;
+  page_size?: number;
+}
+
+export interface CatalogFacetValue {
+  value: string;
+  count: number;
+}
+
+export interface CatalogSearchResponse {
+  servers: McpServer[];
+  total: number;
+  page: number;
+  page_size: number;
+  facets: Partial<Record<CatalogFacet, CatalogFacetValue[]>>;
+}
+
+export interface CatalogServerDetail extends McpServer {
+  tool_definitions?: McpToolDefinition[];
+  readme?: string;
+}
+
+export interface TextStreamEvent {
+  type: 'text';
+  content: string;
+}
+
+export interface FunctionCallStreamEvent {
+  type: 'function_call';
+  function_name: string;
+  function_args: any;
+  function_result: any;
+}
+
+export interface ToolExecutionResultStreamEvent {
+  type: 'tool_execution_result';
+  result: ToolExecutionResult;
+}
+
+export interface AiAnalysisStreamEvent {
+  type: 'ai_analysis';
+  content: string;
+}
+
+export interface ErrorStreamEvent {
+  type: 'error';
+  message?: string;
+  error?: string;
+  tool_name?: string;
+  server_id?: string;
+}
+
+export type ChatStreamEvent =
+  | TextStreamEvent
+  | FunctionCallStreamEvent
+  | ToolExecutionResultStreamEvent
+  | AiAnalysisStreamEvent
+  | ErrorStreamEvent;
+
+export interface ServerStatusEvent {
+  type: 'server_status';
+  server_id: string;
+  server_name?: string;
+  status: ServerStatus;
+  error?: string;
+}
+
+export interface ServerToolsChangedEvent {
+  type: 'tools_changed';
+  server_id: string;
+}
+
+export interface ServerRemovedEvent {
+  type: 'server_removed';
+  server_id: string;
+}
+
+export type ServerEvent = ServerStatusEvent | ServerToolsChangedEvent | ServerRemovedEvent;
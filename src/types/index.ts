@@ -22,6 +22,31 @@ export interface Conversation {
   updated_at: Date;
 }
 
+export interface FunctionCall {
+  type: string;
+  function_name: string;
+  function_args: any;
+  function_result: any;
+  // Set client-side when the backend ran a call the approval policy should have held back
+  ranBeforeApproval?: boolean;
+}
+
+export interface ChatMessage {
+  id: string;
+  content: string;
+  sender: 'user' | 'assistant';
+  timestamp: Date;
+  functionCalls?: FunctionCall[];
+  interrupted?: boolean;
+}
+
+export interface StoredConversation extends Conversation {
+  title: string;
+  messages: ChatMessage[];
+  conversation_history: any[];
+  server_count: number;
+}
+
 export interface ContentItem {
   id: string;
   type: string;
@@ -38,4 +63,158 @@ export interface StreamMessage {
   type: string;
   content: string;
   recommendations?: McpServer[];
-} 
\ No newline at end of file
+}
+
+export interface SessionServer {
+  sessionId: string;
+  serverId: string;
+  serverName: string;
+  installedAt: string;
+  isActive: boolean;
+}
+
+export type ServerStatus = 'starting' | 'running' | 'stopped' | 'crashed' | 'needs_credentials';
+
+export interface ConfiguredServer extends SessionServer {
+  isRunning?: boolean;
+  needsCredentials?: boolean;
+  // Set from live status events; `/servers/configured` only reports the two flags above
+  status?: ServerStatus;
+  statusError?: string;
+}
+
+export interface CredentialField {
+  name: string;
+  type: 'text' | 'password' | 'url';
+  label: string;
+  placeholder?: string;
+  required: boolean;
+  help?: string;
+  // Format rules from the backend schema, checked before anything is sent
+  pattern?: string;
+  pattern_message?: string;
+  prefixes?: string[];
+  min_length?: number;
+  max_length?: number;
+}
+
+export interface McpCredentialRequirement {
+  server_id: string;
+  server_name: string;
+  required_fields: CredentialField[];
+}
+
+export interface EncryptedCredentials {
+  // Base64 PBKDF2 salt, AES-GCM IV and ciphertext
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+export interface CredentialProfile {
+  id: string;
+  name: string;
+  server_id?: string;
+  // Kept in the clear so profiles can be matched to a form without unlocking them
+  field_names: string[];
+  values?: Record<string, string>;
+  encrypted?: EncryptedCredentials;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ToolExecutionResult {
+  success: boolean;
+  message?: string;
+  execution_time?: number;
+  result?: any;
+  error?: string;
+  tool_name?: string;
+  server_id?: string;
+}
+
+export interface ToolExecutionRecord {
+  id: string;
+  session_id: string;
+  server_id: string;
+  tool_name: string;
+  parameters: Record<string, any>;
+  executed_at: string;
+  execution_time?: number;
+  success: boolean;
+  error?: string;
+  result?: any;
+  source: 'chat' | 'workbench';
+}
+
+export type WorkflowFailurePolicy = 'stop' | 'continue';
+
+export interface WorkflowStep {
+  id: string;
+  server_id: string;
+  tool_name: string;
+  // May contain `{{steps.N...}}` references to earlier steps' outputs
+  parameters: Record<string, any>;
+  on_failure: WorkflowFailurePolicy;
+}
+
+export interface Workflow {
+  id: string;
+  name: string;
+  steps: WorkflowStep[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ToolPreset {
+  id: string;
+  name: string;
+  server_id: string;
+  tool_name: string;
+  parameters: Record<string, any>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface JsonSchema {
+  type?: string | string[];
+  title?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: any[];
+  default?: any;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  pattern?: string;
+  format?: string;
+}
+
+// Behaviour hints from MCP `tools/list`; servers aren't required to send them
+export interface McpToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
+export interface McpToolDefinition {
+  name: string;
+  description?: string;
+  inputSchema?: JsonSchema;
+  annotations?: McpToolAnnotations;
+}
+
+export type ToolApprovalMode = 'always' | 'mutating' | 'allowlist';
+
+export interface ToolApprovalPolicy {
+  mode: ToolApprovalMode;
+  // Entries are `serverId/toolName`
+  allowlist: string[];
+}